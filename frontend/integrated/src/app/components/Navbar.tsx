@@ -1,11 +1,12 @@
 import { useAesthetic } from "../context/AestheticContext";
 import { motion } from "motion/react";
-import { Box, Palette, LogOut } from "lucide-react";
-import { useNavigate } from "react-router";
+import { Box, Palette, LogOut, BarChart3, Sparkles } from "lucide-react";
+import { useLocation, useNavigate } from "react-router";
 
 export function Navbar() {
   const { mode, toggleMode } = useAesthetic();
   const navigate = useNavigate();
+  const onInsights = useLocation().pathname === "/insights";
 
   const handleLogout = () => {
     navigate("/");
@@ -45,20 +46,35 @@ export function Navbar() {
           </motion.button>
         </div>
 
-        {/* Right Side - Logout */}
-        <motion.button
-          onClick={handleLogout}
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.95 }}
-          className={`flex items-center gap-2 px-4 py-2 rounded-full backdrop-blur-xl border transition-all ${
-            mode === '3d'
-              ? 'bg-red-500/20 border-red-400/50 text-red-200 hover:bg-red-500/30'
-              : 'bg-red-400/20 border-red-300/50 text-red-600 hover:bg-red-400/30'
-          }`}
-        >
-          <LogOut className="w-4 h-4" />
-          <span className="text-sm">Logout</span>
-        </motion.button>
+        {/* Right Side - Insights / Sanctuary + Logout */}
+        <div className="flex items-center gap-3">
+          <motion.button
+            onClick={() => navigate(onInsights ? "/sanctuary" : "/insights")}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className={`flex items-center gap-2 px-4 py-2 rounded-full backdrop-blur-xl border transition-all ${
+              mode === '3d'
+                ? 'bg-amber-500/20 border-amber-400/50 text-amber-200 hover:bg-amber-500/30'
+                : 'bg-teal-500/20 border-teal-400/50 text-teal-600 hover:bg-teal-500/30'
+            }`}
+          >
+            {onInsights ? <Sparkles className="w-4 h-4" /> : <BarChart3 className="w-4 h-4" />}
+            <span className="text-sm">{onInsights ? "Sanctuary" : "Insights"}</span>
+          </motion.button>
+          <motion.button
+            onClick={handleLogout}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            className={`flex items-center gap-2 px-4 py-2 rounded-full backdrop-blur-xl border transition-all ${
+              mode === '3d'
+                ? 'bg-red-500/20 border-red-400/50 text-red-200 hover:bg-red-500/30'
+                : 'bg-red-400/20 border-red-300/50 text-red-600 hover:bg-red-400/30'
+            }`}
+          >
+            <LogOut className="w-4 h-4" />
+            <span className="text-sm">Logout</span>
+          </motion.button>
+        </div>
       </div>
     </nav>
   );
@@ -1,44 +1,189 @@
 import { motion, AnimatePresence } from "motion/react";
-import { AlertTriangle, Check } from "lucide-react";
-import type { SlouchEvent } from "../lib/posture-types";
+import { AlertTriangle, Camera, Check, Eye, EyeOff, MonitorSmartphone, ScanFace } from "lucide-react";
+import type {
+  BodyPart,
+  CameraMoveEvent,
+  EyeBreakEvent,
+  QuickReferenceProgress,
+  ScreenDistanceEvent,
+  SlouchEvent,
+} from "../lib/posture-types";
 
 interface PostureOverlayProps {
   visible: boolean;
   slouchEvent: SlouchEvent | null;
+  /** Too-close-to-screen alert, stacked under the slouch alert */
+  tooCloseEvent?: ScreenDistanceEvent | null;
+  /** 20-20-20 eye-break reminder, stacked under the other alerts */
+  eyeBreakEvent?: EyeBreakEvent | null;
+  /** The user took the eye break */
+  onEyeBreakDone?: () => void;
   onDismiss?: () => void;
 }
 
-export function PostureOverlay({ visible, slouchEvent }: PostureOverlayProps) {
+export function PostureOverlay({
+  visible,
+  slouchEvent,
+  tooCloseEvent = null,
+  eyeBreakEvent = null,
+  onEyeBreakDone,
+}: PostureOverlayProps) {
+  return (
+    <div className="fixed top-6 left-1/2 -translate-x-1/2 z-50 w-full max-w-sm pointer-events-none flex flex-col gap-3">
+      <AnimatePresence>
+        {visible && (
+          <motion.div
+            id="postureOverlay"
+            key="slouch"
+            layout
+            initial={{ opacity: 0, y: -30 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -30 }}
+            transition={{ type: "spring", stiffness: 260, damping: 20 }}
+          >
+            <div className="mx-4 backdrop-blur-2xl bg-rose-500/90 border border-rose-300/40 rounded-2xl p-4 shadow-2xl shadow-rose-500/30">
+              <div className="flex items-start gap-3">
+                <div className="shrink-0 w-9 h-9 rounded-full bg-white/20 flex items-center justify-center">
+                  <AlertTriangle className="w-5 h-5 text-white" />
+                </div>
+                <div>
+                  <p className="text-white font-semibold text-sm">Posture Alert</p>
+                  <p id="slouchReason" className="text-rose-100 text-xs mt-0.5">
+                    {slouchEvent?.reason ?? "Slouching detected — sit up straight!"}
+                  </p>
+                  {slouchEvent?.severity && (
+                    <span className={`inline-block mt-1.5 text-[10px] px-2 py-0.5 rounded-full font-medium ${
+                      slouchEvent.severity === "severe"   ? "bg-red-700/60 text-red-100"
+                      : slouchEvent.severity === "moderate" ? "bg-orange-600/60 text-orange-100"
+                      : "bg-yellow-600/60 text-yellow-100"
+                    }`}>
+                      {slouchEvent.severity} — fix your posture to dismiss
+                    </span>
+                  )}
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        )}
+        {tooCloseEvent && (
+          <motion.div
+            id="screenDistanceOverlay"
+            key="too-close"
+            layout
+            initial={{ opacity: 0, y: -30 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -30 }}
+            transition={{ type: "spring", stiffness: 260, damping: 20 }}
+          >
+            <div className="mx-4 backdrop-blur-2xl bg-amber-500/90 border border-amber-300/40 rounded-2xl p-4 shadow-2xl shadow-amber-500/30">
+              <div className="flex items-start gap-3">
+                <div className="shrink-0 w-9 h-9 rounded-full bg-white/20 flex items-center justify-center">
+                  <MonitorSmartphone className="w-5 h-5 text-white" />
+                </div>
+                <div>
+                  <p className="text-white font-semibold text-sm">Too Close to Screen</p>
+                  <p className="text-amber-100 text-xs mt-0.5">
+                    About {Math.round(tooCloseEvent.distance)} cm away — lean back to at least {tooCloseEvent.minDistance} cm
+                  </p>
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        )}
+        {eyeBreakEvent && (
+          <motion.div
+            id="eyeBreakOverlay"
+            key="eye-break"
+            layout
+            initial={{ opacity: 0, y: -30 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -30 }}
+            transition={{ type: "spring", stiffness: 260, damping: 20 }}
+          >
+            <div className="mx-4 backdrop-blur-2xl bg-sky-500/90 border border-sky-300/40 rounded-2xl p-4 shadow-2xl shadow-sky-500/30">
+              <div className="flex items-start gap-3">
+                <div className="shrink-0 w-9 h-9 rounded-full bg-white/20 flex items-center justify-center">
+                  <Eye className="w-5 h-5 text-white" />
+                </div>
+                <div className="flex-1">
+                  <p className="text-white font-semibold text-sm">Eye Break</p>
+                  <p className="text-sky-100 text-xs mt-0.5">
+                    {eyeBreakEvent.message} — look at something 20 feet (6 m) away for 20 seconds
+                  </p>
+                  {onEyeBreakDone && (
+                    <button
+                      onClick={onEyeBreakDone}
+                      className="pointer-events-auto mt-2 text-xs px-3 py-1.5 rounded-full bg-white/20 border border-white/30 text-white font-medium hover:bg-white/30 transition-all"
+                    >
+                      Done
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+interface PostureCorrectedToastProps {
+  visible: boolean;
+}
+
+export function PostureCorrectedToast({ visible }: PostureCorrectedToastProps) {
   return (
     <AnimatePresence>
       {visible && (
         <motion.div
-          id="postureOverlay"
+          initial={{ opacity: 0, y: -30 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -30 }}
+          transition={{ type: "spring", stiffness: 260, damping: 20 }}
+          className="fixed top-6 left-1/2 -translate-x-1/2 z-50 pointer-events-none"
+        >
+          <div className="backdrop-blur-2xl bg-emerald-500/90 border border-emerald-300/40 rounded-2xl px-5 py-3 shadow-2xl shadow-emerald-500/30 flex items-center gap-2">
+            <Check className="w-4 h-4 text-white" strokeWidth={3} />
+            <p className="text-white text-sm font-semibold">Great posture! Keep it up.</p>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+interface ReferenceCheckOverlayProps {
+  /** Check progress, or null when no check is running */
+  check: QuickReferenceProgress | null;
+}
+
+export function ReferenceCheckOverlay({ check }: ReferenceCheckOverlayProps) {
+  return (
+    <AnimatePresence>
+      {check && (
+        <motion.div
           initial={{ opacity: 0, y: -30 }}
           animate={{ opacity: 1, y: 0 }}
           exit={{ opacity: 0, y: -30 }}
           transition={{ type: "spring", stiffness: 260, damping: 20 }}
           className="fixed top-6 left-1/2 -translate-x-1/2 z-50 w-full max-w-sm pointer-events-none"
         >
-          <div className="mx-4 backdrop-blur-2xl bg-rose-500/90 border border-rose-300/40 rounded-2xl p-4 shadow-2xl shadow-rose-500/30">
+          <div className="mx-4 backdrop-blur-2xl bg-slate-900/80 border border-cyan-300/30 rounded-2xl p-4 shadow-2xl shadow-cyan-500/20">
             <div className="flex items-start gap-3">
-              <div className="shrink-0 w-9 h-9 rounded-full bg-white/20 flex items-center justify-center">
-                <AlertTriangle className="w-5 h-5 text-white" />
+              <div className="shrink-0 w-9 h-9 rounded-full bg-cyan-400/20 flex items-center justify-center">
+                <ScanFace className="w-5 h-5 text-cyan-300" />
               </div>
-              <div>
-                <p className="text-white font-semibold text-sm">Posture Alert</p>
-                <p id="slouchReason" className="text-rose-100 text-xs mt-0.5">
-                  {slouchEvent?.reason ?? "Slouching detected — sit up straight!"}
-                </p>
-                {slouchEvent?.severity && (
-                  <span className={`inline-block mt-1.5 text-[10px] px-2 py-0.5 rounded-full font-medium ${
-                    slouchEvent.severity === "severe"   ? "bg-red-700/60 text-red-100"
-                    : slouchEvent.severity === "moderate" ? "bg-orange-600/60 text-orange-100"
-                    : "bg-yellow-600/60 text-yellow-100"
-                  }`}>
-                    {slouchEvent.severity} — fix your posture to dismiss
-                  </span>
-                )}
+              <div className="flex-1">
+                <p className="text-white font-semibold text-sm">Quick posture check</p>
+                <p className="text-slate-300 text-xs mt-0.5">{check.message}</p>
+                <div className="h-1.5 mt-2 bg-white/10 rounded-full overflow-hidden">
+                  <motion.div
+                    className="h-full rounded-full bg-gradient-to-r from-cyan-400 to-teal-400"
+                    animate={{ width: `${check.progress}%` }}
+                    transition={{ ease: "linear", duration: 0.1 }}
+                  />
+                </div>
               </div>
             </div>
           </div>
@@ -48,27 +193,85 @@ export function PostureOverlay({ visible, slouchEvent }: PostureOverlayProps) {
   );
 }
 
-interface PostureCorrectedToastProps {
-  visible: boolean;
+interface CameraMovedPromptProps {
+  /** The detected move, or null when monitoring isn't paused */
+  event: CameraMoveEvent | null;
+  onReReference: () => void;
+  onResume: () => void;
 }
 
-export function PostureCorrectedToast({ visible }: PostureCorrectedToastProps) {
+export function CameraMovedPrompt({ event, onReReference, onResume }: CameraMovedPromptProps) {
   return (
     <AnimatePresence>
-      {visible && (
+      {event && (
         <motion.div
           initial={{ opacity: 0, y: -30 }}
           animate={{ opacity: 1, y: 0 }}
           exit={{ opacity: 0, y: -30 }}
           transition={{ type: "spring", stiffness: 260, damping: 20 }}
-          className="fixed top-6 left-1/2 -translate-x-1/2 z-50 pointer-events-none"
+          className="fixed top-6 left-1/2 -translate-x-1/2 z-50 w-full max-w-sm"
         >
-          <div className="backdrop-blur-2xl bg-emerald-500/90 border border-emerald-300/40 rounded-2xl px-5 py-3 shadow-2xl shadow-emerald-500/30 flex items-center gap-2">
-            <Check className="w-4 h-4 text-white" strokeWidth={3} />
-            <p className="text-white text-sm font-semibold">Great posture! Keep it up.</p>
+          <div className="mx-4 backdrop-blur-2xl bg-slate-900/80 border border-cyan-300/30 rounded-2xl p-4 shadow-2xl shadow-cyan-500/20">
+            <div className="flex items-start gap-3">
+              <div className="shrink-0 w-9 h-9 rounded-full bg-cyan-400/20 flex items-center justify-center">
+                <Camera className="w-5 h-5 text-cyan-300" />
+              </div>
+              <div className="flex-1">
+                <p className="text-white font-semibold text-sm">Camera moved — re-reference?</p>
+                <p className="text-slate-300 text-xs mt-0.5">
+                  {event.kind === "scale"
+                    ? "You look closer or further away than before."
+                    : "Your whole frame shifted at once."}{" "}
+                  Posture alerts are paused.
+                </p>
+                <div className="flex gap-2 mt-3">
+                  <button
+                    onClick={onReReference}
+                    className="text-xs px-3 py-1.5 rounded-full bg-cyan-400/20 border border-cyan-300/40 text-cyan-100 font-medium hover:bg-cyan-400/30 transition-all"
+                  >
+                    Re-reference
+                  </button>
+                  <button
+                    onClick={onResume}
+                    className="text-xs px-3 py-1.5 rounded-full bg-white/10 border border-white/20 text-white/80 hover:bg-white/20 transition-all"
+                  >
+                    Keep going
+                  </button>
+                </div>
+              </div>
+            </div>
           </div>
         </motion.div>
       )}
     </AnimatePresence>
   );
 }
+
+interface VisibilityNoticeProps {
+  /** Body parts the camera can't see; nothing renders when empty */
+  hiddenParts: BodyPart[];
+}
+
+export function VisibilityNotice({ hiddenParts }: VisibilityNoticeProps) {
+  const list = hiddenParts.length > 1
+    ? `${hiddenParts.slice(0, -1).join(", ")} and ${hiddenParts[hiddenParts.length - 1]}`
+    : hiddenParts[0] ?? "";
+
+  return (
+    <AnimatePresence>
+      {hiddenParts.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, x: 20 }}
+          animate={{ opacity: 1, x: 0 }}
+          exit={{ opacity: 0, x: 20 }}
+          className="text-xs px-3 py-1.5 rounded-full backdrop-blur-md border font-medium bg-white/10 border-white/20 text-white flex items-center gap-1.5"
+        >
+          <EyeOff className="w-3.5 h-3.5" />
+          <span>
+            <span className="capitalize">{list}</span> not visible · checks skip them
+          </span>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { motion, AnimatePresence } from "motion/react";
+import { Check, ChevronUp, Pencil, Plus, Trash2, UserRound } from "lucide-react";
+import type { CalibrationProfile } from "../lib/posture-types";
+
+interface ProfileSwitcherProps {
+  profiles: CalibrationProfile[];
+  activeProfileId: string | null;
+  mode: '3d' | '2d';
+  /** Activate a calibrated profile */
+  onSwitch: (profileId: string) => void;
+  /** Start calibrating a profile (new or not yet calibrated) */
+  onCalibrate: (profileId: string) => void;
+  onCreate: (name: string) => CalibrationProfile;
+  onRename: (profileId: string, name: string) => void;
+  onDelete: (profileId: string) => void;
+}
+
+export function ProfileSwitcher({
+  profiles,
+  activeProfileId,
+  mode,
+  onSwitch,
+  onCalibrate,
+  onCreate,
+  onRename,
+  onDelete,
+}: ProfileSwitcherProps) {
+  const [open, setOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const active = profiles.find((p) => p.id === activeProfileId);
+  const accent = mode === '3d' ? "text-amber-300" : "text-teal-600";
+
+  const startEditing = (id: string, name: string) => {
+    setEditingId(id);
+    setDraftName(name);
+    setFormError(null);
+  };
+
+  const submit = () => {
+    try {
+      if (editingId === "new") {
+        const profile = onCreate(draftName);
+        onCalibrate(profile.id);
+      } else if (editingId) {
+        onRename(editingId, draftName);
+      }
+      setEditingId(null);
+      setFormError(null);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="absolute bottom-full right-0 mb-2 w-64 backdrop-blur-2xl bg-black/60 border border-white/20 rounded-2xl p-2 shadow-2xl"
+          >
+            {profiles.map((profile) => (
+              <div key={profile.id} className="flex items-center gap-1 rounded-xl hover:bg-white/10 px-2 py-1.5">
+                {editingId === profile.id ? (
+                  <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") submit();
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 bg-white/10 rounded-md px-2 py-0.5 text-xs text-white outline-none"
+                  />
+                ) : (
+                  <button
+                    onClick={() => {
+                      if (profile.calibration) onSwitch(profile.id);
+                      else onCalibrate(profile.id);
+                      setOpen(false);
+                    }}
+                    className="flex-1 min-w-0 flex items-center gap-2 text-left text-xs text-white"
+                  >
+                    <Check className={`w-3.5 h-3.5 shrink-0 ${profile.id === activeProfileId ? accent : "opacity-0"}`} />
+                    <span className="truncate">{profile.name}</span>
+                    {!profile.calibration && (
+                      <span className="ml-auto text-[10px] text-white/50 shrink-0">calibrate</span>
+                    )}
+                  </button>
+                )}
+                <button
+                  onClick={() => startEditing(profile.id, profile.name)}
+                  className="p-1 text-white/50 hover:text-white"
+                  aria-label={`Rename ${profile.name}`}
+                >
+                  <Pencil className="w-3 h-3" />
+                </button>
+                {profile.id !== activeProfileId && (
+                  <button
+                    onClick={() => onDelete(profile.id)}
+                    className="p-1 text-white/50 hover:text-rose-300"
+                    aria-label={`Delete ${profile.name}`}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            ))}
+
+            {editingId === "new" ? (
+              <input
+                autoFocus
+                placeholder="Profile name (e.g. Laptop)"
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") submit();
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+                className="w-full mt-1 bg-white/10 rounded-xl px-3 py-1.5 text-xs text-white placeholder:text-white/40 outline-none"
+              />
+            ) : (
+              <button
+                onClick={() => startEditing("new", "")}
+                className="w-full mt-1 flex items-center gap-2 rounded-xl px-2 py-1.5 text-xs text-white/80 hover:bg-white/10"
+              >
+                <Plus className="w-3.5 h-3.5" /> New profile
+              </button>
+            )}
+            {formError && <p className="px-2 pt-1 text-[10px] text-rose-300">{formError}</p>}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <button
+        onClick={() => { setOpen(!open); setEditingId(null); }}
+        className="text-xs px-3 py-1.5 rounded-full backdrop-blur-md border font-medium bg-white/10 border-white/20 text-white flex items-center gap-1.5 hover:bg-white/20 transition-all"
+      >
+        <UserRound className="w-3.5 h-3.5" />
+        {active?.name ?? "No profile"}
+        <ChevronUp className={`w-3 h-3 transition-transform ${open ? "" : "rotate-180"}`} />
+      </button>
+    </div>
+  );
+}
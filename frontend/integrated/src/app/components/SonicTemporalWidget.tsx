@@ -22,7 +22,7 @@ export function SonicTemporalWidget({ mode }: SonicTemporalWidgetProps) {
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
   useEffect(() => {
-    let interval: NodeJS.Timeout;
+    let interval: ReturnType<typeof setInterval>;
     
     if (isTimerRunning) {
       interval = setInterval(() => {
@@ -0,0 +1,50 @@
+import { createContext, useContext, useState, ReactNode } from "react";
+import { usePostureMonitor, type UsePostureMonitorReturn } from "../hooks/usePostureMonitor";
+import type { BuiltinClassifierName } from "../lib/classifiers/registry";
+
+// Eye-break reminders run Face Mesh on every frame, so they are opt-in
+const EYE_BREAKS_KEY = "eyeBreakReminders";
+
+interface PostureContextType extends UsePostureMonitorReturn {
+  /** Whether eye-break reminders (Face Mesh blink tracking) are on */
+  eyeTracking: boolean;
+  /** Turn eye-break reminders on or off; remembered across visits */
+  setEyeTracking: (enabled: boolean) => void;
+}
+
+const PostureContext = createContext<PostureContextType | undefined>(undefined);
+
+interface PostureProviderProps {
+  children: ReactNode;
+  /** Classifier registry name (defaults to "calibrated") */
+  strategy?: BuiltinClassifierName | (string & {});
+}
+
+/**
+ * Owns the one camera + posture monitor for the whole app. Monitoring keeps
+ * running across route changes; screens start, pause or stop it through
+ * usePosture().
+ */
+export function PostureProvider({ children, strategy }: PostureProviderProps) {
+  const [eyeTracking, setEyeTrackingState] = useState(() => localStorage.getItem(EYE_BREAKS_KEY) === "on");
+  const monitor = usePostureMonitor({ strategy, eyeTracking });
+
+  const setEyeTracking = (enabled: boolean) => {
+    localStorage.setItem(EYE_BREAKS_KEY, enabled ? "on" : "off");
+    setEyeTrackingState(enabled);
+  };
+
+  return (
+    <PostureContext.Provider value={{ ...monitor, eyeTracking, setEyeTracking }}>
+      {children}
+    </PostureContext.Provider>
+  );
+}
+
+export function usePosture() {
+  const context = useContext(PostureContext);
+  if (!context) {
+    throw new Error("usePosture must be used within PostureProvider");
+  }
+  return context;
+}
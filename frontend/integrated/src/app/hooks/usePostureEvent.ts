@@ -0,0 +1,28 @@
+/**
+ * usePostureEvent
+ * ----------------
+ * Subscribes a component to one posture monitor event for as long as it is
+ * mounted. Any number of components can listen to the same event.
+ *
+ * Usage (inside PostureProvider):
+ *   usePostureEvent("slouch-start", (event) => toast(event.reason));
+ *   usePostureEvent("pose-lost", () => setAway(true));
+ */
+
+import { useEffect, useRef } from "react";
+import { usePosture } from "../context/PostureContext";
+import type { PostureEventMap } from "../lib/posture-types";
+
+export function usePostureEvent<K extends keyof PostureEventMap>(
+  type: K,
+  handler: (event: PostureEventMap[K]) => void
+): void {
+  const { events } = usePosture();
+  // The latest handler is called, so inline closures don't resubscribe every render
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    return events.on(type, (event) => handlerRef.current(event));
+  }, [events, type]);
+}
@@ -1,33 +1,58 @@
 /**
  * usePostureMonitor
  * ------------------
- * Wires up the StudyPosture vanilla-JS backend classes (PoseDetector,
- * PostureCalibrator, CalibratedPostureMonitor) with React state so any
- * component can react to posture events.
+ * Wires up the StudyPosture engine modules (PoseDetector, PostureCalibrator,
+ * CalibratedPostureMonitor) with React state. Each call owns a camera, so it
+ * is called once, by PostureProvider (context/PostureContext.tsx); components
+ * read the same state through usePosture().
  *
- * Usage:
- *   const { slouching, slouchEvent, stats } = usePostureMonitor();
+ * Usage (inside PostureProvider):
+ *   const monitor = usePostureMonitor({ strategy: "balanced" }); // any registered classifier
+ *   monitor.start();  // camera on, reference check, monitoring
+ *   monitor.pause();  // keep the camera, ignore frames
+ *   monitor.resume(); // pick up again (also answers a camera-moved prompt)
+ *   monitor.stop();   // camera off; start() again later
+ *   monitor.events.on("slouch-start", handler); // see usePostureEvent
  */
 
 import { useState, useEffect, useRef, useCallback } from "react";
-import type { SlouchEvent, PostureStats } from "../lib/posture-types";
-
-const MEDIAPIPE_SCRIPTS = [
-  "https://cdn.jsdelivr.net/npm/@mediapipe/camera_utils/camera_utils.js",
-  "https://cdn.jsdelivr.net/npm/@mediapipe/control_utils/control_utils.js",
-  "https://cdn.jsdelivr.net/npm/@mediapipe/drawing_utils/drawing_utils.js",
-  "https://cdn.jsdelivr.net/npm/@mediapipe/pose/pose.js",
-];
-
-function ensureScript(src: string): Promise<void> {
-  return new Promise((resolve) => {
-    if (document.querySelector(`script[src="${src}"]`)) { resolve(); return; }
-    const s = document.createElement("script");
-    s.src = src;
-    s.onload = () => resolve();
-    s.onerror = () => resolve(); // silent degrade
-    document.head.appendChild(s);
-  });
+import { PoseDetector } from "../lib/pose-detection";
+import { PostureCalibrator, QuickReferenceError } from "../lib/calibration";
+import { CalibratedPostureMonitor } from "../lib/calibrated-posture-monitor";
+import { EyeStrainMonitor } from "../lib/eye-strain-monitor";
+import { SessionRecorder } from "../lib/session-recorder";
+import { TypedEventEmitter } from "../lib/event-emitter";
+import { createClassifier, DEFAULT_CLASSIFIER, type BuiltinClassifierName } from "../lib/classifiers/registry";
+import { loadMediaPipe } from "../lib/mediapipe-loader";
+import type {
+  BaselineSnapshot,
+  BodyPart,
+  CalibrationProfile,
+  CameraMoveEvent,
+  EyeBreakEvent,
+  EyeStrainStats,
+  PostureEventMap,
+  PostureStats,
+  QuickReference,
+  QuickReferenceProgress,
+  QuickReferenceResult,
+  ScreenDistanceEvent,
+  SlouchEvent,
+} from "../lib/posture-types";
+
+// A profile saved this recently was calibrated just before entering the
+// Sanctuary, so the session-start reference check is skipped
+const JUST_CALIBRATED_MS = 2 * 60 * 1000;
+
+// Hidden body parts must stay the same this long before the notice changes,
+// so a landmark hovering around the visibility threshold doesn't flicker it
+const VISIBILITY_SETTLE_MS = 1000;
+
+export interface UsePostureMonitorOptions {
+  /** Classifier registry name (defaults to "calibrated") */
+  strategy?: BuiltinClassifierName | (string & {});
+  /** Run Face Mesh for blink tracking and 20-20-20 eye-break reminders (default false) */
+  eyeTracking?: boolean;
 }
 
 export interface UsePostureMonitorReturn {
@@ -35,69 +60,242 @@ export interface UsePostureMonitorReturn {
   slouching: boolean;
   /** Details of the latest slouch event */
   slouchEvent: SlouchEvent | null;
+  /** Set while the user sits closer to the screen than the configured minimum */
+  tooClose: ScreenDistanceEvent | null;
+  /** Set while a 20-20-20 eye break is due (needs `eyeTracking`) */
+  eyeBreak: EyeBreakEvent | null;
+  /** Blink rate, stares and screen time (refreshed with `stats`; null without `eyeTracking`) */
+  eyeStats: EyeStrainStats | null;
+  /** The user took the eye break — dismiss the reminder and restart the interval */
+  completeEyeBreak: () => void;
   /** Whether posture was just corrected (auto-clears after 3 s) */
   corrected: boolean;
   /** Running session stats */
   stats: PostureStats | null;
+  /** Adaptive baseline checkpoints — how far it has moved from the calibration */
+  baselineHistory: BaselineSnapshot[];
   /** Whether posture monitoring is active */
   active: boolean;
+  /** Paused by pause() or a camera move; frames are ignored until resume() */
+  paused: boolean;
+  /** The user left the desk (no pose for 30 s); alerts are dropped until they return */
+  away: boolean;
+  /** Why monitoring could not start, if it failed */
+  error: string | null;
+  /** Saved calibration is missing or unusable — send the user to /calibration */
+  needsRecalibration: boolean;
+  /** No saved profile matches the current camera setup — calibrate a new one */
+  needsNewProfile: boolean;
+  /** Progress of the session-start reference check, while it runs */
+  referenceCheck: QuickReferenceProgress | null;
+  /** Why the reference check sent the active profile back to calibration */
+  recalibrationReason: string | null;
+  /** Body parts the camera can't see well enough; their metrics are ignored */
+  hiddenParts: BodyPart[];
+  /** Set while monitoring is paused because the camera moved */
+  cameraMoved: CameraMoveEvent | null;
+  /**
+   * Monitor events (slouch-start, frame-analyzed, pose-lost, ...). The same
+   * emitter serves every session, so subscriptions survive stop()/start()
+   */
+  events: TypedEventEmitter<PostureEventMap>;
+  /** Run the quick reference check again for the new framing, then resume */
+  reReference: () => Promise<void>;
+  /**
+   * Start the camera and monitoring with the saved calibration. Does nothing
+   * while running or already starting; `skipReferenceCheck` goes straight in
+   */
+  start: (skipReferenceCheck?: boolean) => Promise<void>;
+  /** Stop monitoring and release the camera; clears alerts and errors */
+  stop: () => void;
+  /** Stop judging posture (e.g. during a break); the camera stays on */
+  pause: () => void;
+  /** Resume with the current baseline, after pause() or a camera move */
+  resume: () => void;
+  /** The user's calibration profiles */
+  profiles: CalibrationProfile[];
+  activeProfileId: string | null;
+  /**
+   * Make a profile active, hot-swapping the running monitor's baseline.
+   * Returns false if the profile has not been calibrated yet.
+   */
+  switchProfile: (profileId: string) => boolean;
+  /** Create an empty profile; throws on an empty or duplicate name */
+  createProfile: (name: string) => CalibrationProfile;
+  renameProfile: (profileId: string, name: string) => void;
+  deleteProfile: (profileId: string) => void;
 }
 
-export function usePostureMonitor(): UsePostureMonitorReturn {
+export function usePostureMonitor(
+  { strategy = DEFAULT_CLASSIFIER, eyeTracking = false }: UsePostureMonitorOptions = {}
+): UsePostureMonitorReturn {
   const [slouching,    setSlouching]    = useState(false);
   const [slouchEvent,  setSlouchEvent]  = useState<SlouchEvent | null>(null);
+  const [tooClose,     setTooClose]     = useState<ScreenDistanceEvent | null>(null);
+  const [eyeBreak,     setEyeBreak]     = useState<EyeBreakEvent | null>(null);
+  const [eyeStats,     setEyeStats]     = useState<EyeStrainStats | null>(null);
   const [corrected,    setCorrected]    = useState(false);
   const [stats,        setStats]        = useState<PostureStats | null>(null);
+  const [baselineHistory, setBaselineHistory] = useState<BaselineSnapshot[]>([]);
   const [active,       setActive]       = useState(false);
+  const [paused,       setPaused]       = useState(false);
+  const [away,         setAway]         = useState(false);
+  const [error,        setError]        = useState<string | null>(null);
+  const [needsRecalibration, setNeedsRecalibration] = useState(false);
+  const [needsNewProfile, setNeedsNewProfile] = useState(false);
+  const [referenceCheck, setReferenceCheck] = useState<QuickReferenceProgress | null>(null);
+  const [recalibrationReason, setRecalibrationReason] = useState<string | null>(null);
+  const [cameraMoved,  setCameraMoved]  = useState<CameraMoveEvent | null>(null);
+  const [hiddenParts,  setHiddenParts]  = useState<BodyPart[]>([]);
+  const [profiles,     setProfiles]     = useState<CalibrationProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [events] = useState(() => new TypedEventEmitter<PostureEventMap>());
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const detectorRef  = useRef<any>(null);
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const monitorRef   = useRef<any>(null);
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const calibratorRef = useRef<any>(null);
+  const detectorRef   = useRef<PoseDetector | null>(null);
+  const monitorRef    = useRef<CalibratedPostureMonitor | null>(null);
+  const calibratorRef = useRef<PostureCalibrator | null>(null);
+  const eyeMonitorRef = useRef<EyeStrainMonitor | null>(null);
+  const recorderRef   = useRef<SessionRecorder | null>(null);
+  // Read when the detector starts, so toggling it doesn't restart monitoring
+  const eyeTrackingRef = useRef(eyeTracking);
   const correctedTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const statsInterval = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Bumped by stop() so a start() still awaiting the camera or the reference
+  // check knows to back out
+  const sessionRef = useRef(0);
+  const startingRef = useRef(false);
+  // Set when the last start() (or re-reference) gave up for want of a usable
+  // calibration, rather than being stopped by the user
+  const calibrationBlockedRef = useRef(false);
+  // Frames go to the reference check while it runs, then to the monitor
+  const referenceRef = useRef<QuickReference | null>(null);
+  const visibilityRef = useRef({ pending: "", since: 0, shown: "" });
+
+  const stop = useCallback(() => {
+    sessionRef.current++;
+    startingRef.current = false;
+    calibrationBlockedRef.current = false;
+    referenceRef.current?.cancel();
+    referenceRef.current = null;
+    detectorRef.current?.stop();
+    monitorRef.current?.stop();
+    recorderRef.current?.finish();
+    recorderRef.current = null;
+    if (statsInterval.current) clearInterval(statsInterval.current);
+    statsInterval.current = null;
+
+    setActive(false);
+    setPaused(false);
+    setAway(false);
+    setError(null);
+    setNeedsRecalibration(false);
+    setNeedsNewProfile(false);
+    setRecalibrationReason(null);
+    setSlouching(false);
+    setSlouchEvent(null);
+    setTooClose(null);
+    setEyeBreak(null);
+    setCameraMoved(null);
+    setReferenceCheck(null);
+    setHiddenParts([]);
+    visibilityRef.current = { pending: "", since: 0, shown: "" };
+  }, []);
+
+  // ── Quick reference check (~5 s) ──────────────────────────────────────────
+  // Picks the profile for this setup, then either re-centres the baseline
+  // on today's posture or sends the user back to calibration. Resolves to
+  // whether monitoring can go ahead.
+  const runReferenceCheck = useCallback(async (calibrator: PostureCalibrator) => {
+    setReferenceCheck({ progress: 0, framesCollected: 0, message: "Hold your comfortable posture..." });
+    const reference = calibrator.performQuickReference(setReferenceCheck);
+    referenceRef.current = reference;
+    let result: QuickReferenceResult;
+    try {
+      result = await reference.result;
+    } catch (err) {
+      // Cancelled by stop(), which has already reset the state
+      if (err instanceof QuickReferenceError && err.reason === "cancelled") return false;
+      console.warn("[usePostureMonitor] Reference check failed:", err);
+      referenceRef.current = null;
+      setReferenceCheck(null);
+      detectorRef.current?.stop();
+      setError("Couldn't see you for the posture check — sit in view of the camera and reload");
+      return false;
+    }
+    referenceRef.current = null;
+    setReferenceCheck(null);
+    setProfiles(calibrator.listProfiles());
+    setActiveProfileId(calibrator.activeProfileId);
 
-  const start = useCallback(async () => {
-    // ── Load MediaPipe + BE scripts if not already present ─────────────────
-    for (const src of MEDIAPIPE_SCRIPTS) await ensureScript(src);
-    await ensureScript("/src/app/lib/pose-detection.js");
-    await ensureScript("/src/app/lib/calibration.js");
-    await ensureScript("/src/app/lib/calibrated-posture-monitor.js");
-
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const PD  = (window as any).PoseDetector;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const PC  = (window as any).PostureCalibrator;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const CPM = (window as any).CalibratedPostureMonitor;
-
-    if (!PD || !PC || !CPM) {
-      console.warn("[usePostureMonitor] BE classes not found — monitoring disabled");
+    if (!result.matchedProfile) {
+      console.warn("[usePostureMonitor] No calibration profile matches this setup");
+      detectorRef.current?.stop();
+      setError("This setup doesn't match a saved profile — calibrate a new one");
+      setNeedsNewProfile(true);
+      calibrationBlockedRef.current = true;
+      return false;
+    }
+    console.log(`🎯 Matched calibration profile "${result.matchedProfile.name}"`);
+
+    if (result.needsRecalibration) {
+      console.warn("[usePostureMonitor] Reference check failed:", result.reason);
+      detectorRef.current?.stop();
+      setError("Your posture has changed since calibration — recalibrate");
+      setNeedsRecalibration(true);
+      setRecalibrationReason(result.reason);
+      calibrationBlockedRef.current = true;
+      return false;
+    }
+    if (result.adjustedBaseline) calibrator.applyAdjustedBaseline(result.adjustedBaseline);
+    return true;
+  }, []);
+
+  const startSession = useCallback(async (session: number, skipReferenceCheck: boolean) => {
+    const cancelled = () => sessionRef.current !== session;
+
+    // ── Load the MediaPipe runtime if not already present ──────────────────
+    try {
+      await loadMediaPipe();
+    } catch (err) {
+      console.error("[usePostureMonitor] MediaPipe failed to load:", err);
+      setError("Pose detection failed to load — posture monitoring is off");
       return;
     }
+    if (cancelled()) return;
 
     // Re-use existing calibration if saved
-    calibratorRef.current = new PC();
-    calibratorRef.current.loadCalibration();
+    const calibrator = new PostureCalibrator();
+    calibratorRef.current = calibrator;
+    calibrator.loadCalibration();
+    if (calibrator.loadError) {
+      setError("Saved calibration is damaged — recalibrate to resume monitoring");
+      setNeedsRecalibration(true);
+      calibrationBlockedRef.current = true;
+      return;
+    }
+    setProfiles(calibrator.listProfiles());
+    setActiveProfileId(calibrator.activeProfileId);
 
-    if (!calibratorRef.current.hasCalibration()) {
+    let classifier;
+    try {
+      classifier = createClassifier(strategy, { calibrator });
+    } catch (err) {
+      console.error("[usePostureMonitor]", err);
+      setError(`Unknown posture strategy "${strategy}"`);
+      return;
+    }
+
+    const calibratedProfiles = calibrator.listProfiles().filter((p) => p.calibration);
+    if (classifier.requiresCalibration && calibratedProfiles.length === 0) {
       console.warn("[usePostureMonitor] No calibration data — monitoring disabled");
+      setError("No saved calibration — calibrate to enable posture monitoring");
+      setNeedsRecalibration(true);
+      calibrationBlockedRef.current = true;
       return;
     }
 
-    monitorRef.current = new CPM(calibratorRef.current);
-    monitorRef.current.onSlouch((event: SlouchEvent) => {
-      setSlouching(true);
-      setSlouchEvent(event);
-    });
-    monitorRef.current.onCorrection(() => {
-      setSlouching(false);
-      setSlouchEvent(null);
-      setCorrected(true);
-      if (correctedTimer.current) clearTimeout(correctedTimer.current);
-      correctedTimer.current = setTimeout(() => setCorrected(false), 3000);
-    });
+    const monitor = new CalibratedPostureMonitor(calibrator, classifier, events);
+    monitorRef.current = monitor;
 
     // Create a hidden video element for background detection
     let video = document.getElementById("__postureVideo") as HTMLVideoElement | null;
@@ -116,42 +314,283 @@ export function usePostureMonitor(): UsePostureMonitorReturn {
       document.body.appendChild(canvas);
     }
 
-    detectorRef.current = new PD();
-    const ok = await detectorRef.current.initialize("__postureVideo", "__postureCanvas");
-    if (!ok) return;
+    const eyeMonitor = new EyeStrainMonitor();
+    eyeMonitorRef.current = eyeMonitor;
+    eyeMonitor.onBreakDue(setEyeBreak);
+    eyeMonitor.onBreakTaken(() => setEyeBreak(null));
+
+    const detector = new PoseDetector();
+    detectorRef.current = detector;
+    detector.onEyeFrame((eyes, timestamp) => eyeMonitor.update(eyes, timestamp));
+    const ok = await detector.initialize("__postureVideo", "__postureCanvas", {
+      eyeTracking: eyeTrackingRef.current,
+    });
+    if (cancelled()) {
+      detector.stop();
+      return;
+    }
+    if (!ok) {
+      setError("Camera unavailable — posture monitoring is off");
+      return;
+    }
+
+    try {
+      await detector.start((metrics) => {
+        if (metrics) {
+          const hidden = metrics.hiddenParts ?? [];
+          const visibility = visibilityRef.current;
+          if (hidden.join() !== visibility.pending) {
+            visibility.pending = hidden.join();
+            visibility.since = metrics.timestamp;
+          } else if (visibility.pending !== visibility.shown && metrics.timestamp - visibility.since >= VISIBILITY_SETTLE_MS) {
+            visibility.shown = visibility.pending;
+            setHiddenParts(hidden);
+          }
+        }
+
+        if (referenceRef.current) {
+          referenceRef.current.collector(metrics);
+          return;
+        }
+        // Frames without a pose go to the monitor too, for pose-lost
+        monitor.processFrame(metrics);
+        // Sample faster while a slouch is building so the alert lands on time
+        detector.scheduler.setBoost(monitor.isSlouchBuilding());
+      });
+    } catch (err) {
+      // Camera permission denied or the stream wouldn't play
+      console.error("[usePostureMonitor] Camera failed to start:", err);
+      if (cancelled()) return;
+      stop();
+      setError("Camera unavailable — posture monitoring is off");
+      return;
+    }
+    if (cancelled()) {
+      detector.stop();
+      return;
+    }
+
+    // Session-start reference check
+    const savedAt = calibrator.getActiveProfile()?.calibration?.savedAt ?? 0;
+    if (classifier.requiresCalibration && !skipReferenceCheck && Date.now() - savedAt > JUST_CALIBRATED_MS) {
+      if (!(await runReferenceCheck(calibrator)) || cancelled()) return;
+    }
 
-    monitorRef.current.start();
+    monitor.start();
     setActive(true);
+    setPaused(false);
 
-    await detectorRef.current.start((results: { poseLandmarks?: unknown[] }) => {
-      const landmarks = PD.extractLandmarks(results);
-      if (!landmarks) return;
-      const metrics = PD.calculatePostureMetrics(landmarks);
-      if (metrics) monitorRef.current.processFrame(metrics);
+    // Record the session to IndexedDB (see lib/session-history.ts)
+    const recorder = new SessionRecorder(monitor, {
+      userId: calibrator.userId,
+      profileId: calibrator.activeProfileId,
+      strategy,
     });
+    recorder.start();
+    recorderRef.current = recorder;
 
     // Update stats every 30 s
-    const statsInterval = setInterval(() => {
-      if (monitorRef.current) setStats(monitorRef.current.getStats());
+    statsInterval.current = setInterval(() => {
+      setStats(monitor.getStats());
+      setBaselineHistory(monitor.getBaselineHistory());
+      if (eyeTrackingRef.current) setEyeStats(eyeMonitor.getStats());
     }, 30_000);
+  }, [strategy, events, runReferenceCheck, stop]);
+
+  const start = useCallback(async (skipReferenceCheck = false) => {
+    if (startingRef.current || monitorRef.current?.isMonitoring) return;
+    startingRef.current = true;
+    const session = ++sessionRef.current;
+    // The last attempt's outcome (e.g. sent to recalibrate) no longer applies
+    setError(null);
+    setNeedsRecalibration(false);
+    setNeedsNewProfile(false);
+    setRecalibrationReason(null);
+    calibrationBlockedRef.current = false;
+    try {
+      await startSession(session, skipReferenceCheck);
+    } finally {
+      // A stop() meanwhile has already cleared it (and may have started again)
+      if (sessionRef.current === session) startingRef.current = false;
+    }
+  }, [startSession]);
+
+  const pause = useCallback(() => {
+    monitorRef.current?.pause();
+    setPaused(true);
+    setSlouching(false);
+    setSlouchEvent(null);
+    setTooClose(null);
+  }, []);
+
+  // ── Monitor events ────────────────────────────────────────────────────────
+  // Subscribed once: every session's monitor publishes on the same emitter
+  useEffect(() => {
+    const unsubscribers = [
+      events.on("slouch-start", (event) => {
+        setSlouching(true);
+        setSlouchEvent(event);
+      }),
+      events.on("slouch-end", () => {
+        setSlouching(false);
+        setSlouchEvent(null);
+        setCorrected(true);
+        if (correctedTimer.current) clearTimeout(correctedTimer.current);
+        correctedTimer.current = setTimeout(() => setCorrected(false), 3000);
+      }),
+      events.on("too-close-start", setTooClose),
+      events.on("too-close-end", () => setTooClose(null)),
+      events.on("camera-moved", (event) => {
+        // The monitor dropped any slouch in progress — hide its alert too
+        setSlouching(false);
+        setSlouchEvent(null);
+        setTooClose(null);
+        setCameraMoved(event);
+        setPaused(true);
+      }),
+      events.on("user-away", () => {
+        // The monitor dropped any slouch in progress — nobody is there to see it
+        setSlouching(false);
+        setSlouchEvent(null);
+        setTooClose(null);
+        setAway(true);
+      }),
+      events.on("user-returned", () => setAway(false)),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [events]);
+
+  // ── Camera moved ──────────────────────────────────────────────────────────
+  const reReference = useCallback(async () => {
+    const monitor = monitorRef.current;
+    const calibrator = calibratorRef.current;
+    if (!monitor || !calibrator) return;
+
+    setCameraMoved(null);
+    if (!(await runReferenceCheck(calibrator))) {
+      monitor.stop();
+      recorderRef.current?.finish();
+      recorderRef.current = null;
+      setActive(false);
+      setPaused(false);
+      return;
+    }
+    // The check may have matched another profile for the new framing
+    const recorder = recorderRef.current;
+    if (recorder?.record && recorder.record.profileId !== calibrator.activeProfileId) {
+      recorder.switchProfile(calibrator.activeProfileId);
+    }
+    // Restarts the adaptive baseline from the re-centred calibration
+    monitor.resume();
+    setPaused(false);
+  }, [runReferenceCheck]);
+
+  const resume = useCallback(() => {
+    setCameraMoved(null);
+    setPaused(false);
+    monitorRef.current?.resume();
+  }, []);
+
+  // ── Eye breaks ────────────────────────────────────────────────────────────
+  useEffect(() => {
+    if (eyeTrackingRef.current === eyeTracking) return;
+    eyeTrackingRef.current = eyeTracking;
+    detectorRef.current?.setEyeTracking(eyeTracking);
+    eyeMonitorRef.current?.reset();
+    setEyeBreak(null);
+    setEyeStats(null);
+  }, [eyeTracking]);
+
+  const completeEyeBreak = useCallback(() => {
+    eyeMonitorRef.current?.takeBreak();
+    setEyeBreak(null);
+  }, []);
 
-    return () => clearInterval(statsInterval);
+  // ── Calibration profiles ──────────────────────────────────────────────────
+  const getCalibrator = useCallback(() => {
+    if (!calibratorRef.current) {
+      calibratorRef.current = new PostureCalibrator();
+      calibratorRef.current.loadCalibration();
+    }
+    return calibratorRef.current;
   }, []);
 
+  const refreshProfiles = useCallback(() => {
+    const calibrator = getCalibrator();
+    setProfiles(calibrator.listProfiles());
+    setActiveProfileId(calibrator.activeProfileId);
+    if (calibrator.loadError) {
+      setError("Saved calibration is damaged — recalibrate to resume monitoring");
+      setNeedsRecalibration(true);
+      calibrationBlockedRef.current = true;
+    }
+  }, [getCalibrator]);
+
+  const switchProfile = useCallback((profileId: string) => {
+    const monitor = monitorRef.current;
+    let switched: boolean;
+    if (monitor) {
+      switched = monitor.switchProfile(profileId);
+    } else {
+      const calibrator = getCalibrator();
+      calibrator.switchProfile(profileId);
+      switched = calibrator.hasCalibration();
+    }
+    refreshProfiles();
+    if (!switched) return false;
+    recorderRef.current?.switchProfile(profileId);
+
+    setSlouching(false);
+    setSlouchEvent(null);
+    setTooClose(null);
+    // Picking a profile answers a pending camera-moved prompt
+    if (monitor?.isPaused) {
+      setCameraMoved(null);
+      setPaused(false);
+      monitor.resume();
+    }
+    // Monitoring was off for lack of a usable calibration — start with the
+    // profile the user just picked instead of matching again. Not after the
+    // user stopped it, nor while a start or reference check is in flight.
+    if (!monitor?.isMonitoring && calibrationBlockedRef.current && !startingRef.current) {
+      stop();
+      start(true);
+    }
+    return true;
+  }, [getCalibrator, refreshProfiles, start, stop]);
+
+  const createProfile = useCallback((name: string) => {
+    const profile = getCalibrator().createProfile(name);
+    refreshProfiles();
+    return profile;
+  }, [getCalibrator, refreshProfiles]);
+
+  const renameProfile = useCallback((profileId: string, name: string) => {
+    getCalibrator().renameProfile(profileId, name);
+    refreshProfiles();
+  }, [getCalibrator, refreshProfiles]);
+
+  const deleteProfile = useCallback((profileId: string) => {
+    getCalibrator().deleteProfile(profileId);
+    refreshProfiles();
+  }, [getCalibrator, refreshProfiles]);
+
   useEffect(() => {
-    // Only start monitoring if we were calibrated this session
-    const calibrated = sessionStorage.getItem("postureCalibrated");
-    if (calibrated) start();
+    refreshProfiles();
 
     return () => {
-      detectorRef.current?.stop?.();
-      monitorRef.current?.stop?.();
+      stop();
       if (correctedTimer.current) clearTimeout(correctedTimer.current);
       // Clean up injected elements
       document.getElementById("__postureVideo")?.remove();
       document.getElementById("__postureCanvas")?.remove();
     };
-  }, [start]);
+  }, [refreshProfiles, stop]);
 
-  return { slouching, slouchEvent, corrected, stats, active };
+  return {
+    slouching, slouchEvent, tooClose, corrected, stats, baselineHistory, active, paused, away, error, needsRecalibration, needsNewProfile,
+    referenceCheck, recalibrationReason, hiddenParts, cameraMoved, events, reReference, start, stop, pause, resume,
+    eyeBreak, eyeStats, completeEyeBreak,
+    profiles, activeProfileId, switchProfile, createProfile, renameProfile, deleteProfile,
+  };
 }
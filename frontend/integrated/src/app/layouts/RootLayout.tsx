@@ -1,10 +1,13 @@
 import { Outlet } from "react-router";
 import { AestheticProvider } from "../context/AestheticContext";
+import { PostureProvider } from "../context/PostureContext";
 
 export function RootLayout() {
   return (
     <AestheticProvider>
-      <Outlet />
+      <PostureProvider>
+        <Outlet />
+      </PostureProvider>
     </AestheticProvider>
   );
 }
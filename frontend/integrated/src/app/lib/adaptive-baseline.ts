@@ -0,0 +1,136 @@
+/**
+ * ADAPTIVE BASELINE
+ * Slowly follows the user's good posture through a session, so a raised
+ * chair or a nudged camera doesn't read as a permanent slouch.
+ *
+ * Only confirmed good posture is learned: each frame waits in a queue until
+ * it has been followed by CONFIRM_DURATION of non-slouched frames, and the
+ * whole queue is thrown away as soon as a slouch starts. Confirmed frames
+ * feed an exponential moving average with a time constant of TIME_CONSTANT,
+ * and no metric may wander more than MAX_DRIFT_SIGMAS from the original
+ * calibration — beyond that the user should re-reference instead. Metrics
+ * built on hidden landmarks are never learned.
+ */
+
+import { CALIBRATION_METRIC_KEYS, METRIC_NOISE_FLOOR } from "./calibration-stats";
+import { isMetricAvailable } from "./pose-metrics";
+import type { BaselineSnapshot, CalibrationMetrics, PostureMetrics } from "./posture-types";
+
+// How long good posture must continue before a frame is learned
+const CONFIRM_DURATION = 30_000;
+// EMA time constant: the baseline covers ~63% of a step change in this long
+const TIME_CONSTANT = 10 * 60 * 1000;
+// Largest drift from the original calibration, per metric
+const MAX_DRIFT_SIGMAS = 4;
+// Longest frame gap counted as learning time
+const MAX_FRAME_GAP = 2000;
+// Snapshots kept (one per checkpoint, every 3 minutes ≈ 5 hours)
+const MAX_HISTORY = 100;
+
+interface PendingFrame {
+  timestamp: number;
+  metrics: CalibrationMetrics;
+  unavailable: PostureMetrics['unavailable'];
+}
+
+export class AdaptiveBaseline {
+  /** Baseline the session started from (the stored calibration) */
+  original: CalibrationMetrics | null = null;
+  /** Current learned baseline */
+  current: CalibrationMetrics | null = null;
+  history: BaselineSnapshot[] = [];
+
+  private pending: PendingFrame[] = [];
+  private lastLearnedAt: number | null = null;
+
+  /**
+   * @param spread per-frame standard deviation of a metric, used to cap drift
+   */
+  constructor(
+    private spread: (key: keyof CalibrationMetrics) => number = key => METRIC_NOISE_FLOOR[key]
+  ) {}
+
+  /**
+   * Start over from `start` (e.g. a quick-reference adjusted baseline),
+   * measuring drift against `original` (the stored calibration)
+   */
+  reset(start: CalibrationMetrics | null, original: CalibrationMetrics | null = start): void {
+    this.current = start ? pickMetrics(start) : null;
+    this.original = original ? pickMetrics(original) : null;
+    this.history = [];
+    this.pending = [];
+    this.lastLearnedAt = null;
+  }
+
+  /**
+   * Feed a frame with the monitor's verdict for it
+   */
+  update(metrics: PostureMetrics, isSlouching: boolean): void {
+    if (isSlouching) {
+      // Whatever led up to the slouch is suspect too
+      this.pending = [];
+      this.lastLearnedAt = null;
+      return;
+    }
+
+    this.pending.push({
+      timestamp: metrics.timestamp,
+      metrics: pickMetrics(metrics),
+      unavailable: metrics.unavailable
+    });
+
+    while (this.pending.length > 0 && metrics.timestamp - this.pending[0].timestamp >= CONFIRM_DURATION) {
+      this.learn(this.pending.shift()!);
+    }
+  }
+
+  /**
+   * Record the current baseline in the history
+   */
+  checkpoint(timestamp: number): BaselineSnapshot | null {
+    if (!this.current) return null;
+
+    const drift = {} as CalibrationMetrics;
+    let maxDrift = 0;
+    for (const key of CALIBRATION_METRIC_KEYS) {
+      drift[key] = this.original ? (this.current[key] - this.original[key]) / this.spread(key) : 0;
+      maxDrift = Math.max(maxDrift, Math.abs(drift[key]));
+    }
+
+    const snapshot: BaselineSnapshot = { timestamp, baseline: { ...this.current }, drift, maxDrift };
+    this.history.push(snapshot);
+    if (this.history.length > MAX_HISTORY) this.history.shift();
+    return snapshot;
+  }
+
+  private learn(frame: PendingFrame): void {
+    if (!this.current) {
+      this.current = { ...frame.metrics };
+      this.original ??= { ...frame.metrics };
+      this.lastLearnedAt = frame.timestamp;
+      return;
+    }
+
+    const elapsed = this.lastLearnedAt === null
+      ? 0
+      : Math.min(Math.max(frame.timestamp - this.lastLearnedAt, 0), MAX_FRAME_GAP);
+    this.lastLearnedAt = frame.timestamp;
+    const alpha = elapsed / TIME_CONSTANT;
+
+    for (const key of CALIBRATION_METRIC_KEYS) {
+      if (!isMetricAvailable(frame, key)) continue;
+      let value = this.current[key] + alpha * (frame.metrics[key] - this.current[key]);
+      if (this.original) {
+        const limit = MAX_DRIFT_SIGMAS * this.spread(key);
+        value = Math.min(Math.max(value, this.original[key] - limit), this.original[key] + limit);
+      }
+      this.current[key] = value;
+    }
+  }
+}
+
+function pickMetrics(metrics: CalibrationMetrics): CalibrationMetrics {
+  const picked = {} as CalibrationMetrics;
+  for (const key of CALIBRATION_METRIC_KEYS) picked[key] = metrics[key];
+  return picked;
+}
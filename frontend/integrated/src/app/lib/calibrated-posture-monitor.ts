@@ -0,0 +1,634 @@
+/**
+ * CALIBRATED POSTURE MONITOR - THE PROPER VERSION!
+ * Uses your personal calibration to detect slouching accurately.
+ * Per-frame judgement is delegated to a PostureClassifier (see
+ * classifiers/registry.ts); this class owns timing, alerts and stats.
+ */
+
+import { AdaptiveBaseline } from "./adaptive-baseline";
+import type { PostureCalibrator } from "./calibration";
+import { CalibratedClassifier } from "./classifiers/calibrated-classifier";
+import { HAND_ON_FACE_ISSUE } from "./classifiers/issue-labels";
+import { TypedEventEmitter, type Unsubscribe } from "./event-emitter";
+import { estimateScreenDistance } from "./pose-metrics";
+import { PresenceTracker } from "./presence-tracker";
+import type {
+  BaselineSnapshot,
+  CalibrationMetrics,
+  CameraMoveEvent,
+  PostureAnalysis,
+  PostureClassifier,
+  PostureEventMap,
+  PostureMetrics,
+  PostureStats,
+  ScreenDistanceEvent,
+  SlouchEvent,
+} from "./posture-types";
+
+interface MonitorFrameStats {
+  totalFrames: number;
+  slouchFrames: number;
+  goodFrames: number;
+  /** Time spent in each state (ms), so quality doesn't depend on frame rate */
+  slouchTime: number;
+  goodTime: number;
+  alerts: number;
+  distanceAlerts: number;
+}
+
+// A gap longer than this (tab throttled, camera stalled) is not counted as
+// time spent in the current posture
+const MAX_FRAME_GAP = 2000;
+
+export class CalibratedPostureMonitor {
+  calibrator: PostureCalibrator;
+  classifier: PostureClassifier;
+  isMonitoring = false;
+  /** Paused after a camera move until the user re-references or resumes */
+  isPaused = false;
+
+  // Session tracking
+  sessionStartTime: number | null = null;
+  driftCheckInterval = 3 * 60 * 1000; // 3 minutes
+  lastDriftCheck = 0;
+
+  // Slouch detection - BALANCED settings. Durations are measured from frame
+  // timestamps, so they hold at whatever rate frames are sampled.
+  // Slouching fills a leaky bucket and good posture drains it more slowly,
+  // so sitting up for a moment doesn't wipe out the slouch before it.
+  slouchStartedAt: number | null = null; // when the bucket started filling from empty
+  goodPostureStartedAt: number | null = null;
+  slouchLevel = 0; // ms of slouching in the bucket
+  slouchFillRate = 1; // bucket ms gained per ms of slouching
+  slouchDrainRate = 0.5; // bucket ms lost per ms of good posture
+  requiredSlouchDuration = 15_000; // full bucket (15 seconds of slouching) before alert
+  requiredGoodDuration = 2_500; // 2.5 seconds of unbroken good posture to dismiss alert
+  isCurrentlySlouched = false;
+  lastFrameTimestamp: number | null = null;
+
+  // Screen distance - a separate alert from slouching. Needs a distance
+  // measured during calibration; without one it stays off.
+  screenDistance: number | null = null; // latest estimate (cm)
+  minScreenDistance = 50; // cm - closer than this is too close
+  screenDistanceMargin = 5; // cm beyond the minimum needed to clear the alert
+  requiredTooCloseDuration = 10_000; // 10 seconds too close before alert
+  tooCloseStartedAt: number | null = null;
+  distanceOkStartedAt: number | null = null;
+  isTooClose = false;
+
+  // Hand on face (chin or cheek propped on a hand) - landmarks alone can't
+  // see it, so once held long enough it is added to the classifier's verdict
+  handOnFaceDistance = 0.3; // hand within 0.3 shoulder widths of the mouth, nose or ears
+  requiredHandOnFaceDuration = 5_000; // 5 seconds, so touching the face in passing doesn't count
+  handOnFaceStartedAt: number | null = null;
+
+  // Presence - tells missed frames from the user leaving the desk. While
+  // away, slouch timing is dropped and nothing counts toward posture quality
+  presence = new PresenceTracker();
+
+  // Stale calibration - the adaptive baseline caps each metric at 4σ from
+  // the saved profile, so drift this close to the cap means recalibrate
+  staleCalibrationDrift = 3; // σ
+  calibrationStaleReported = false; // once per session
+
+  // Events (slouch-start, frame-analyzed, pose-lost, ... see PostureEventMap)
+  events: TypedEventEmitter<PostureEventMap>;
+
+  // Stats
+  stats: MonitorFrameStats = CalibratedPostureMonitor.emptyStats();
+
+  // Slow-moving good-posture baseline, applied at every drift check
+  baseline: AdaptiveBaseline;
+
+  /**
+   * @param events emitter to publish on; pass a shared one so subscribers
+   *   outlive this monitor (e.g. across restarts)
+   */
+  constructor(
+    calibrator: PostureCalibrator,
+    classifier?: PostureClassifier,
+    events = new TypedEventEmitter<PostureEventMap>()
+  ) {
+    this.calibrator = calibrator;
+    this.classifier = classifier ?? new CalibratedClassifier(calibrator);
+    this.events = events;
+    this.baseline = new AdaptiveBaseline(key => this.calibrator.getMetricSpread('good', key));
+
+    console.log('📏 Calibrated Monitor initialized - needs calibration to work!');
+  }
+
+  private static emptyStats(): MonitorFrameStats {
+    return {
+      totalFrames: 0,
+      slouchFrames: 0,
+      goodFrames: 0,
+      slouchTime: 0,
+      goodTime: 0,
+      alerts: 0,
+      distanceAlerts: 0
+    };
+  }
+
+  /**
+   * Start monitoring
+   */
+  start(): boolean {
+    // Check if calibrated
+    if (this.classifier.requiresCalibration && !this.calibrator.hasCalibration()) {
+      console.error('❌ Cannot start monitoring - no calibration data!');
+      return false;
+    }
+
+    this.isMonitoring = true;
+    this.isPaused = false;
+    this.sessionStartTime = Date.now();
+    this.lastDriftCheck = Date.now();
+    this.slouchStartedAt = null;
+    this.goodPostureStartedAt = null;
+    this.slouchLevel = 0;
+    this.handOnFaceStartedAt = null;
+    this.lastFrameTimestamp = null;
+    this.isCurrentlySlouched = false;
+    this.presence.reset(Date.now());
+    this.calibrationStaleReported = false;
+    this.resetScreenDistance();
+    this.stats = CalibratedPostureMonitor.emptyStats();
+    this.classifier.reset?.();
+    this.resetBaseline();
+
+    console.log('👁️ Monitoring started with calibration - 15 second buffer active!');
+    return true;
+  }
+
+  /**
+   * Stop monitoring
+   */
+  stop(): void {
+    this.isMonitoring = false;
+    console.log('🛑 Monitoring stopped');
+  }
+
+  /**
+   * Pause slouch detection (e.g. the camera moved). Any building slouch or
+   * active alert is dropped without firing callbacks.
+   */
+  pause(): void {
+    this.isPaused = true;
+    this.dropSlouchState();
+    console.log('⏸️ Monitoring paused');
+  }
+
+  /**
+   * Resume after a pause, restarting timing and the adaptive baseline from
+   * the calibrator's (possibly re-referenced) baseline
+   */
+  resume(): void {
+    this.isPaused = false;
+    this.resetSession();
+    console.log('▶️ Monitoring resumed');
+  }
+
+  /**
+   * Whether a slouch is accumulating towards an alert (used to sample faster)
+   */
+  isSlouchBuilding(): boolean {
+    return this.slouchStartedAt !== null && !this.isCurrentlySlouched;
+  }
+
+  /**
+   * Process each frame; null means no pose was found in it (`timestamp`
+   * then dates it, defaulting to now)
+   */
+  processFrame(metrics: PostureMetrics | null, timestamp = metrics?.timestamp ?? Date.now()): PostureAnalysis | null {
+    if (!this.isMonitoring) return null;
+
+    // Presence is tracked while paused too - the camera is still on
+    this.trackPresence(metrics !== null, timestamp);
+    if (this.isPaused || !metrics) return null;
+
+    // A camera bump shifts every metric at once — pause instead of alerting
+    if (metrics.cameraMove) {
+      this.pause();
+      this.events.emit('camera-moved', metrics.cameraMove);
+      return null;
+    }
+
+    const now = metrics.timestamp;
+    const frameTime = this.lastFrameTimestamp === null
+      ? 0
+      : Math.min(Math.max(now - this.lastFrameTimestamp, 0), MAX_FRAME_GAP);
+    this.lastFrameTimestamp = now;
+    this.stats.totalFrames++;
+
+    this.checkScreenDistance(metrics, now);
+
+    // Compare current posture to calibration
+    let postureAnalysis = this.analyzePosture(metrics);
+    if (this.checkHandOnFace(metrics, now)) {
+      postureAnalysis = {
+        ...postureAnalysis,
+        isSlouching: true,
+        issues: [...postureAnalysis.issues, HAND_ON_FACE_ISSUE]
+      };
+    }
+
+    if (postureAnalysis.isSlouching) {
+      // SLOUCHING DETECTED
+      if (this.slouchStartedAt === null) this.slouchStartedAt = now;
+      this.goodPostureStartedAt = null; // Reset good timer
+      this.slouchLevel = Math.min(this.slouchLevel + frameTime * this.slouchFillRate, this.requiredSlouchDuration);
+      this.stats.slouchFrames++;
+      this.stats.slouchTime += frameTime;
+
+      const slouchDuration = now - this.slouchStartedAt;
+
+      // Alert once the bucket holds 15 seconds of slouching
+      if (this.slouchLevel >= this.requiredSlouchDuration && !this.isCurrentlySlouched) {
+        this.isCurrentlySlouched = true;
+        this.stats.alerts++;
+
+        console.log(`🚨 SLOUCH ALERT after ${(slouchDuration / 1000).toFixed(1)}s`);
+
+        this.events.emit('slouch-start', {
+          reason: postureAnalysis.issues.join(', '),
+          severity: postureAnalysis.severity,
+          duration: slouchDuration / 1000,
+          deviation: postureAnalysis.totalDeviation,
+          timestamp: now
+        });
+      }
+    } else {
+      // GOOD POSTURE DETECTED
+      if (this.goodPostureStartedAt === null) this.goodPostureStartedAt = now;
+      this.stats.goodFrames++;
+      this.stats.goodTime += frameTime;
+
+      const goodDuration = now - this.goodPostureStartedAt;
+
+      if (!this.isCurrentlySlouched) {
+        // A moment of good posture only leaks the bucket, so slouching on
+        // and off still builds up to an alert
+        this.slouchLevel = Math.max(this.slouchLevel - frameTime * this.slouchDrainRate, 0);
+        if (this.slouchLevel === 0) this.slouchStartedAt = null;
+      } else if (goodDuration >= this.requiredGoodDuration) {
+        // Dismiss alert after 2.5 seconds of good posture, and start over
+        const slouchDuration = this.slouchStartedAt === null ? 0 : now - this.slouchStartedAt;
+        this.isCurrentlySlouched = false;
+        this.slouchLevel = 0;
+        this.slouchStartedAt = null;
+
+        console.log(`✅ POSTURE CORRECTED after ${(goodDuration / 1000).toFixed(1)}s`);
+
+        this.events.emit('slouch-end', { duration: slouchDuration / 1000, timestamp: now });
+      }
+    }
+
+    this.events.emit('frame-analyzed', {
+      metrics,
+      analysis: postureAnalysis,
+      slouchLevel: this.slouchLevel / this.requiredSlouchDuration
+    });
+
+    // Learn from good posture only — never while slouching or alerted
+    this.baseline.update(metrics, postureAnalysis.isSlouching || this.isCurrentlySlouched);
+
+    // 3-minute check
+    const timeSinceLastCheck = now - this.lastDriftCheck;
+    if (timeSinceLastCheck >= this.driftCheckInterval) {
+      this.perform3MinCheck(postureAnalysis, now);
+      this.lastDriftCheck = now;
+    }
+
+    return postureAnalysis;
+  }
+
+  /**
+   * Track how close the user sits to the screen, alerting after
+   * requiredTooCloseDuration too close. Clearing needs the user back past
+   * minScreenDistance + screenDistanceMargin for requiredGoodDuration, so
+   * hovering at the line doesn't toggle the alert.
+   */
+  private checkScreenDistance(metrics: PostureMetrics, now: number): void {
+    const calibration = this.calibrator.getCalibrationData();
+    if (!calibration?.screenDistance || !calibration.shoulderWidth) return;
+    if (metrics.hiddenParts?.includes('shoulders')) return;
+
+    const distance = estimateScreenDistance(metrics.shoulderWidth, {
+      distance: calibration.screenDistance,
+      shoulderWidth: calibration.shoulderWidth
+    });
+    this.screenDistance = distance;
+
+    if (distance < this.minScreenDistance) {
+      this.distanceOkStartedAt = null;
+      if (this.tooCloseStartedAt === null) this.tooCloseStartedAt = now;
+
+      const tooCloseDuration = now - this.tooCloseStartedAt;
+      if (tooCloseDuration >= this.requiredTooCloseDuration && !this.isTooClose) {
+        this.isTooClose = true;
+        this.stats.distanceAlerts++;
+
+        console.log(`📏 TOO CLOSE ALERT: ${distance.toFixed(0)} cm for ${(tooCloseDuration / 1000).toFixed(1)}s`);
+
+        this.events.emit('too-close-start', {
+          distance,
+          minDistance: this.minScreenDistance,
+          duration: tooCloseDuration / 1000
+        });
+      }
+      return;
+    }
+
+    this.tooCloseStartedAt = null;
+    if (!this.isTooClose) return;
+    if (distance < this.minScreenDistance + this.screenDistanceMargin) {
+      this.distanceOkStartedAt = null;
+      return;
+    }
+
+    if (this.distanceOkStartedAt === null) this.distanceOkStartedAt = now;
+    if (now - this.distanceOkStartedAt >= this.requiredGoodDuration) {
+      this.isTooClose = false;
+      this.distanceOkStartedAt = null;
+
+      console.log(`✅ SCREEN DISTANCE OK (${distance.toFixed(0)} cm)`);
+
+      this.events.emit('too-close-end', { distance, timestamp: now });
+    }
+  }
+
+  /**
+   * Emit the presence events (pose-lost, user-away, pose-found,
+   * user-returned). Leaving the desk drops any slouch in progress without
+   * firing slouch-end.
+   */
+  private trackPresence(hasPose: boolean, now: number): void {
+    const change = this.presence.update(hasPose, now);
+    if (!change) return;
+    const event = { duration: change.duration, timestamp: now };
+
+    if (change.to === 'pose-lost') {
+      console.log('👻 Pose lost');
+      this.events.emit('pose-lost', event);
+    } else if (change.to === 'away') {
+      this.dropSlouchState();
+      console.log('🚶 User left the desk');
+      this.events.emit('user-away', event);
+    } else {
+      console.log(`🙋 Pose found after ${change.duration.toFixed(1)}s`);
+      this.events.emit('pose-found', event);
+      if (change.from === 'away') {
+        console.log(`👋 User returned after ${(change.duration / 60).toFixed(1)} min`);
+        this.events.emit('user-returned', event);
+      }
+    }
+  }
+
+  /**
+   * Forget any building slouch, active alert and too-close timing, and the
+   * last frame time so the gap isn't counted when frames resume
+   */
+  private dropSlouchState(): void {
+    this.slouchStartedAt = null;
+    this.goodPostureStartedAt = null;
+    this.slouchLevel = 0;
+    this.handOnFaceStartedAt = null;
+    this.lastFrameTimestamp = null;
+    this.isCurrentlySlouched = false;
+    this.resetScreenDistance();
+  }
+
+  /**
+   * Whether a hand has stayed against the face for requiredHandOnFaceDuration
+   */
+  private checkHandOnFace(metrics: PostureMetrics, now: number): boolean {
+    if (metrics.handFaceDistance === undefined || metrics.handFaceDistance > this.handOnFaceDistance) {
+      this.handOnFaceStartedAt = null;
+      return false;
+    }
+    if (this.handOnFaceStartedAt === null) this.handOnFaceStartedAt = now;
+    return now - this.handOnFaceStartedAt >= this.requiredHandOnFaceDuration;
+  }
+
+  private resetScreenDistance(): void {
+    this.tooCloseStartedAt = null;
+    this.distanceOkStartedAt = null;
+    this.isTooClose = false;
+  }
+
+  /**
+   * Analyze a frame with the active classifier
+   */
+  analyzePosture(currentMetrics: PostureMetrics): PostureAnalysis {
+    return this.classifier.analyze(currentMetrics);
+  }
+
+  /**
+   * Swap the classification strategy without restarting the session
+   */
+  setClassifier(classifier: PostureClassifier): void {
+    this.classifier = classifier;
+    this.classifier.reset?.();
+    console.log(`🔀 Classifier switched to "${classifier.name}"`);
+  }
+
+  /**
+   * Swap to another calibration profile's baseline without restarting the
+   * camera. Slouch timing restarts against the new baseline; session stats
+   * carry on. Returns false (keeping the current profile) if the classifier
+   * needs calibration and the profile has none.
+   */
+  switchProfile(profileId: string): boolean {
+    const previousProfileId = this.calibrator.activeProfileId;
+    this.calibrator.switchProfile(profileId);
+
+    if (this.classifier.requiresCalibration && !this.calibrator.hasCalibration()) {
+      console.warn('⚠️ Profile has no calibration - keeping the current baseline');
+      if (previousProfileId) this.calibrator.switchProfile(previousProfileId);
+      return false;
+    }
+
+    this.resetSession();
+    return true;
+  }
+
+  /**
+   * 3-minute check: move the baseline to what has been learned since the
+   * last check and record it in the history. Reports calibration-stale
+   * (once a session) when the baseline has drifted staleCalibrationDrift
+   * from the saved profile.
+   */
+  perform3MinCheck(analysis: PostureAnalysis, timestamp = Date.now()): void {
+    const snapshot = this.baseline.checkpoint(timestamp);
+    if (snapshot) this.applyBaseline(snapshot.baseline);
+
+    console.log('🔍 3-min posture check:', {
+      status: analysis.isSlouching ? 'SLOUCHING' : 'GOOD',
+      issues: analysis.issues,
+      deviation: analysis.totalDeviation,
+      baselineDrift: snapshot ? `${snapshot.maxDrift.toFixed(2)}σ` : 'n/a'
+    });
+
+    this.events.emit('drift-check', { analysis, snapshot, timestamp });
+
+    if (snapshot && snapshot.maxDrift >= this.staleCalibrationDrift && !this.calibrationStaleReported) {
+      this.calibrationStaleReported = true;
+      const [metric, drift] = Object.entries(snapshot.drift)
+        .reduce((max, entry) => Math.abs(entry[1]) > Math.abs(max[1]) ? entry : max);
+
+      console.warn(`⚠️ Calibration looks stale: ${metric} drifted ${drift.toFixed(1)}σ`);
+
+      this.events.emit('calibration-stale', {
+        reason: `${metric} drifted ${Math.abs(drift).toFixed(1)}σ from the saved calibration`,
+        maxDrift: snapshot.maxDrift,
+        timestamp
+      });
+    }
+  }
+
+  /**
+   * Adaptive baseline checkpoints, oldest first
+   */
+  getBaselineHistory(): BaselineSnapshot[] {
+    return [...this.baseline.history];
+  }
+
+  private applyBaseline(baseline: CalibrationMetrics): void {
+    if (this.calibrator.hasCalibration()) this.calibrator.applyAdjustedBaseline(baseline);
+    this.classifier.rebase?.(baseline);
+  }
+
+  /**
+   * Restart the adaptive baseline from the calibrator's current baseline,
+   * measuring drift against the saved profile
+   */
+  private resetBaseline(): void {
+    const current = this.calibrator.getCalibrationData()?.goodPosture ?? null;
+    let original = current;
+    try {
+      original = this.calibrator.getActiveProfile()?.calibration?.goodPosture ?? current;
+    } catch (error) {
+      console.warn('⚠️ Could not read the saved profile for baseline drift:', error);
+    }
+    this.baseline.reset(current, original);
+  }
+
+  /**
+   * Subscribe to the common events (shorthand for events.on). Each call adds
+   * a subscriber and returns its unsubscribe handle.
+   */
+  onSlouch(callback: (event: SlouchEvent) => void): Unsubscribe {
+    return this.events.on('slouch-start', callback);
+  }
+
+  onCorrection(callback: () => void): Unsubscribe {
+    return this.events.on('slouch-end', () => callback());
+  }
+
+  onCameraMoved(callback: (event: CameraMoveEvent) => void): Unsubscribe {
+    return this.events.on('camera-moved', callback);
+  }
+
+  onTooClose(callback: (event: ScreenDistanceEvent) => void): Unsubscribe {
+    return this.events.on('too-close-start', callback);
+  }
+
+  onDistanceCorrection(callback: () => void): Unsubscribe {
+    return this.events.on('too-close-end', () => callback());
+  }
+
+  /**
+   * Get stats
+   */
+  getStats(): PostureStats {
+    const now = Date.now();
+    const sessionDuration = this.sessionStartTime
+      ? Math.floor((now - this.sessionStartTime) / 1000 / 60)
+      : 0;
+    const timeAway = Math.floor(this.presence.getAwayTime(now) / 1000 / 60);
+
+    const trackedTime = this.stats.goodTime + this.stats.slouchTime;
+    const postureQuality = trackedTime > 0
+      ? ((this.stats.goodTime / trackedTime) * 100).toFixed(1)
+      : '0';
+
+    return {
+      sessionDuration: `${sessionDuration} minutes`,
+      postureQuality: `${postureQuality}%`,
+      totalAlerts: this.stats.alerts,
+      distanceAlerts: this.stats.distanceAlerts,
+      timeAway: `${timeAway} minutes`,
+      awayCount: this.presence.getAwayCount(),
+      currentState: this.isCurrentlySlouched ? 'SLOUCHED' : 'GOOD'
+    };
+  }
+
+  /**
+   * Reset session
+   */
+  resetSession(): void {
+    this.lastDriftCheck = Date.now();
+    this.slouchStartedAt = null;
+    this.goodPostureStartedAt = null;
+    this.slouchLevel = 0;
+    this.handOnFaceStartedAt = null;
+    this.lastFrameTimestamp = null;
+    this.isCurrentlySlouched = false;
+    this.resetScreenDistance();
+    this.classifier.reset?.();
+    this.resetBaseline();
+    this.calibrationStaleReported = false;
+    console.log('🔄 Session reset');
+  }
+}
+
+/**
+ * ========================================
+ * CUSTOMIZATION GUIDE:
+ * ========================================
+ *
+ * SLOUCH DETECTION TIMING:
+ * requiredSlouchDuration = 15_000 (15 seconds)
+ *   - Change to 10_000 for 10 seconds
+ *   - Change to 20_000 for 20 seconds
+ *
+ * INTERMITTENT SLOUCHING (leaky bucket):
+ * slouchFillRate = 1, slouchDrainRate = 0.5
+ *   - 10 s slouched, 4 s upright (drains 2 s), 7 s slouched → alert
+ *   - Raise slouchDrainRate towards 1 to forgive short sit-ups more
+ *   - Lower it (e.g. 0.25) to catch on-and-off slouching sooner
+ *
+ * HAND ON FACE ("chin resting on hand" issue):
+ * handOnFaceDistance = 0.3 (shoulder widths), requiredHandOnFaceDuration = 5_000
+ *   - Lower handOnFaceDistance to 0.2 if gestures near the face trigger it
+ *   - The hold time comes before the slouch bucket starts filling
+ *
+ * SCREEN DISTANCE (needs a distance entered during calibration):
+ * minScreenDistance = 50 (cm), requiredTooCloseDuration = 10_000 (10 seconds)
+ *   - Raise minScreenDistance to 60 for a large monitor
+ *   - screenDistanceMargin = 5 (cm) further back needed to clear the alert
+ *
+ * ALERT DISMISSAL:
+ * requiredGoodDuration = 2_500 (2.5 seconds)
+ *   - Change to 2_000 for 2 seconds (easier)
+ *   - Change to 3_000 for 3 seconds (stricter)
+ *
+ * SENSITIVITY:
+ * Thresholds live in the classifier, e.g. classifiers/calibrated-classifier.ts
+ *   - TOLERANCE_SIGMAS.headShoulderRatio (5σ): lower = stricter
+ *   - TOLERANCE_SIGMAS.torsoAngle (6σ): lower = stricter
+ *   - isSlouching criteria: 2 issues OR deviation > 35
+ *
+ * PRESENCE (presence-tracker.ts):
+ * presence.poseLostDelay = 1_000 (1 second without a pose before pose-lost)
+ * presence.awayDelay = 30_000 (30 seconds before user-away)
+ *   - Raise awayDelay to 60_000 if leaning out of frame counts as away
+ *
+ * EVENTS:
+ * staleCalibrationDrift = 3 (σ of baseline drift before calibration-stale)
+ *   - Must stay under the adaptive baseline's 4σ cap to ever fire
+ *
+ * STRATEGY:
+ * Pass a different classifier (see classifiers/registry.ts) to the
+ * constructor or to setClassifier()
+ */
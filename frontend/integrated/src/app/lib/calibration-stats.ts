@@ -0,0 +1,66 @@
+/**
+ * CALIBRATION STATS
+ * Metric keys and spread helpers shared by the calibrator, the classifiers
+ * and the calibration storage migrations.
+ */
+
+import type {
+  CalibrationMetrics,
+  MetricDistribution,
+  PostureDistribution,
+} from "./posture-types";
+
+export const CALIBRATION_METRIC_KEYS: (keyof CalibrationMetrics)[] = [
+  'headShoulderRatio',
+  'shoulderAsymmetry',
+  'torsoAngle',
+  'neckAngle',
+  'forwardLean',
+  'headRoll',
+  'headYaw'
+];
+
+/**
+ * Smallest per-frame standard deviation assumed for each metric, so a
+ * perfectly still calibration can't shrink tolerances to zero. Also used as
+ * the spread of calibrations saved before distributions were stored.
+ */
+export const METRIC_NOISE_FLOOR: CalibrationMetrics = {
+  headShoulderRatio: 0.03,
+  shoulderAsymmetry: 0.015,
+  torsoAngle: 2.5,
+  neckAngle: 3,
+  forwardLean: 0.03,
+  headRoll: 2,
+  headYaw: 0.02
+};
+
+/**
+ * Per-frame standard deviation of a metric, never below its noise floor
+ */
+export function metricSpread(
+  distribution: PostureDistribution | null | undefined,
+  key: keyof CalibrationMetrics
+): number {
+  return Math.max(distribution?.metrics[key].std ?? 0, METRIC_NOISE_FLOOR[key]);
+}
+
+/**
+ * Best-guess distribution around stored means (noise-floor spread).
+ * Storage migrations pass the metric keys of the schema they upgrade.
+ */
+export function estimateDistribution(
+  means: CalibrationMetrics,
+  keys: (keyof CalibrationMetrics)[] = CALIBRATION_METRIC_KEYS
+): PostureDistribution {
+  const metrics = {} as Record<keyof CalibrationMetrics, MetricDistribution>;
+  keys.forEach(key => {
+    metrics[key] = {
+      mean: means[key],
+      std: METRIC_NOISE_FLOOR[key],
+      min: means[key],
+      max: means[key]
+    };
+  });
+  return { metrics, samples: [{ ...means }], frameCount: 0, estimated: true };
+}
@@ -0,0 +1,328 @@
+/**
+ * CALIBRATION STORAGE
+ * Versioned localStorage store for calibration profiles: per user, a list
+ * of named profiles ("Desk", "Laptop", ...) and which one is active.
+ *
+ * Every read runs the stored blob through the migration chain up to
+ * CALIBRATION_SCHEMA_VERSION, then validates it. Anything that can't be
+ * trusted (unparseable JSON, NaN or out-of-range metrics, a missing posture)
+ * raises a CalibrationStorageError so callers can send the user to
+ * recalibrate instead of running on garbage.
+ */
+
+import { CALIBRATION_METRIC_KEYS, METRIC_NOISE_FLOOR, estimateDistribution } from "./calibration-stats";
+import type {
+  CalibrationData,
+  CalibrationMetrics,
+  CalibrationProfile,
+  CalibrationStore,
+  PostureDistribution,
+  StoredCalibration,
+  UserCalibrationProfiles,
+} from "./posture-types";
+
+export const CALIBRATION_STORAGE_KEY = 'postureCalibration';
+export const CALIBRATION_SCHEMA_VERSION = 4;
+
+// Profile created for calibrations saved before profiles existed
+export const DEFAULT_PROFILE_ID = 'default';
+export const DEFAULT_PROFILE_NAME = 'Default';
+
+export type CalibrationStorageErrorReason = 'corrupt' | 'invalid' | 'unsupported-version';
+
+export class CalibrationStorageError extends Error {
+  constructor(readonly reason: CalibrationStorageErrorReason, message: string) {
+    super(message);
+    this.name = 'CalibrationStorageError';
+  }
+}
+
+/**
+ * Plausible range for each metric; values outside it mean a bad capture
+ */
+const METRIC_RANGES: Record<keyof CalibrationMetrics, [number, number]> = {
+  headShoulderRatio: [0, 10],
+  shoulderAsymmetry: [0, 5],
+  torsoAngle: [0, 180],
+  neckAngle: [0, 180],
+  forwardLean: [0, 10],
+  headRoll: [-90, 90],
+  headYaw: [-10, 10]
+};
+
+// Metrics a v1/v2 calibration holds. Migrations use the keys of the version
+// they upgrade, never CALIBRATION_METRIC_KEYS, so a later schema change can't
+// alter what an earlier step produces
+const V1_METRIC_KEYS: (keyof CalibrationMetrics)[] = [
+  'headShoulderRatio',
+  'shoulderAsymmetry',
+  'torsoAngle',
+  'neckAngle',
+  'forwardLean'
+];
+
+// Head metrics assumed for calibrations saved before they were measured:
+// a level head facing the screen
+const HEAD_METRIC_DEFAULTS = { headRoll: 0, headYaw: 0 };
+
+type RawRecord = Record<string, unknown>;
+
+/**
+ * MIGRATIONS[n] upgrades a version-n record to version n + 1.
+ * Records written before versioning are version 1.
+ */
+const MIGRATIONS: Record<number, (record: RawRecord) => RawRecord> = {
+  // v1 → v2: add per-posture distributions (estimated for means-only saves)
+  1: (record) => ({
+    ...record,
+    goodDistribution: record.goodDistribution ??
+      (isObject(record.goodPosture) ? estimateDistribution(record.goodPosture as CalibrationMetrics, V1_METRIC_KEYS) : null),
+    slouchedDistribution: record.slouchedDistribution ??
+      (isObject(record.slouchedPosture) ? estimateDistribution(record.slouchedPosture as CalibrationMetrics, V1_METRIC_KEYS) : null),
+    version: 2
+  }),
+  // v2 → v3: the single record becomes its user's "Default" profile
+  2: ({ version: _version, userId, ...calibration }) => ({
+    version: 3,
+    users: {
+      [typeof userId === 'string' ? userId : 'default']: {
+        activeProfileId: DEFAULT_PROFILE_ID,
+        profiles: [{
+          id: DEFAULT_PROFILE_ID,
+          name: DEFAULT_PROFILE_NAME,
+          createdAt: calibration.calibratedAt,
+          calibration
+        }]
+      }
+    }
+  }),
+  // v3 → v4: add head roll and yaw to every saved calibration
+  3: (record) => ({
+    ...record,
+    version: 4,
+    users: mapCalibrations(record.users, addHeadMetrics)
+  })
+};
+
+/**
+ * Apply `migrate` to every profile's calibration in a raw `users` map
+ */
+function mapCalibrations(users: unknown, migrate: (calibration: RawRecord) => RawRecord): unknown {
+  if (!isObject(users)) return users;
+  return Object.fromEntries(Object.entries(users).map(([userId, user]) => {
+    if (!isObject(user) || !Array.isArray(user.profiles)) return [userId, user];
+    const profiles = (user.profiles as unknown[]).map(profile =>
+      isObject(profile) && isObject(profile.calibration)
+        ? { ...profile, calibration: migrate(profile.calibration) }
+        : profile
+    );
+    return [userId, { ...user, profiles }];
+  }));
+}
+
+function addHeadMetrics(calibration: RawRecord): RawRecord {
+  const withHead = (value: unknown) => isObject(value) ? { ...value, ...HEAD_METRIC_DEFAULTS } : value;
+  const withHeadDistribution = (value: unknown) => {
+    if (!isObject(value) || !isObject(value.metrics) || !Array.isArray(value.samples)) return value;
+    // Estimated like v1 saves: the assumed value, with noise-floor spread
+    const estimate = (key: keyof typeof HEAD_METRIC_DEFAULTS) => ({
+      mean: HEAD_METRIC_DEFAULTS[key],
+      std: METRIC_NOISE_FLOOR[key],
+      min: HEAD_METRIC_DEFAULTS[key],
+      max: HEAD_METRIC_DEFAULTS[key]
+    });
+    return {
+      ...value,
+      metrics: { ...value.metrics, headRoll: estimate('headRoll'), headYaw: estimate('headYaw') },
+      samples: value.samples.map(withHead)
+    };
+  };
+
+  return {
+    ...calibration,
+    goodPosture: withHead(calibration.goodPosture),
+    slouchedPosture: withHead(calibration.slouchedPosture),
+    goodDistribution: withHeadDistribution(calibration.goodDistribution),
+    slouchedDistribution: withHeadDistribution(calibration.slouchedDistribution)
+  };
+}
+
+/**
+ * Read, migrate and validate the saved store.
+ * Returns an empty store when nothing is saved; throws CalibrationStorageError otherwise.
+ */
+export function readCalibrationStore(): CalibrationStore {
+  const saved = localStorage.getItem(CALIBRATION_STORAGE_KEY);
+  if (!saved) return { version: CALIBRATION_SCHEMA_VERSION, users: {} };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(saved);
+  } catch {
+    throw new CalibrationStorageError('corrupt', 'Saved calibration is not valid JSON');
+  }
+  if (!isObject(parsed)) {
+    throw new CalibrationStorageError('corrupt', 'Saved calibration is not an object');
+  }
+
+  const { record, migrated } = migrateCalibrationRecord(parsed);
+  const store = validateCalibrationStore(record);
+
+  // Persist the upgrade so migrations run once
+  if (migrated) {
+    localStorage.setItem(CALIBRATION_STORAGE_KEY, JSON.stringify(store));
+    console.log(`🔄 Migrated saved calibration to schema v${CALIBRATION_SCHEMA_VERSION}`);
+  }
+  return store;
+}
+
+/**
+ * Validate and save the whole store
+ */
+export function writeCalibrationStore(store: CalibrationStore): void {
+  validateCalibrationStore(store as unknown as RawRecord);
+  localStorage.setItem(CALIBRATION_STORAGE_KEY, JSON.stringify(store));
+}
+
+export function removeCalibrationStore(): void {
+  localStorage.removeItem(CALIBRATION_STORAGE_KEY);
+}
+
+/**
+ * Get (creating if needed) a user's profile list within a store
+ */
+export function getUserProfiles(store: CalibrationStore, userId: string): UserCalibrationProfiles {
+  store.users[userId] ??= { activeProfileId: null, profiles: [] };
+  return store.users[userId];
+}
+
+/**
+ * Stamp calibration data as a complete stored calibration, validating it
+ */
+export function toStoredCalibration(data: CalibrationData): StoredCalibration {
+  const { userId: _userId, ...calibration } = data;
+  const stored = { ...calibration, savedAt: Date.now() };
+  validateStoredCalibration(stored, 'calibration');
+  return stored as StoredCalibration;
+}
+
+/**
+ * Run a raw record through the migration chain up to the current version
+ */
+export function migrateCalibrationRecord(raw: RawRecord): { record: RawRecord; migrated: boolean } {
+  let record = raw;
+  let version = typeof record.version === 'number' ? record.version : 1;
+
+  if (version > CALIBRATION_SCHEMA_VERSION) {
+    throw new CalibrationStorageError(
+      'unsupported-version',
+      `Saved calibration uses schema v${version}, newer than supported v${CALIBRATION_SCHEMA_VERSION}`
+    );
+  }
+
+  const migrated = version < CALIBRATION_SCHEMA_VERSION;
+  while (version < CALIBRATION_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new CalibrationStorageError('unsupported-version', `No migration from calibration schema v${version}`);
+    }
+    record = migrate(record);
+    version++;
+  }
+  return { record, migrated };
+}
+
+/**
+ * Check that a store has the current shape and sane values
+ */
+export function validateCalibrationStore(record: RawRecord): CalibrationStore {
+  if (record.version !== CALIBRATION_SCHEMA_VERSION) {
+    throw new CalibrationStorageError('invalid', `Expected calibration schema v${CALIBRATION_SCHEMA_VERSION}`);
+  }
+  if (!isObject(record.users)) {
+    throw new CalibrationStorageError('invalid', 'Saved calibration has no users');
+  }
+
+  for (const [userId, user] of Object.entries(record.users)) {
+    if (!isObject(user) || !Array.isArray(user.profiles)) {
+      throw new CalibrationStorageError('invalid', `Saved calibration for "${userId}" has no profiles`);
+    }
+    for (const profile of user.profiles as unknown[]) {
+      assertProfile(profile);
+    }
+    const activeId = user.activeProfileId;
+    if (activeId !== null && !(user.profiles as CalibrationProfile[]).some(profile => profile.id === activeId)) {
+      throw new CalibrationStorageError('invalid', `Active calibration profile for "${userId}" does not exist`);
+    }
+  }
+
+  return record as unknown as CalibrationStore;
+}
+
+function assertProfile(value: unknown): asserts value is CalibrationProfile {
+  if (
+    !isObject(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.name !== 'string' ||
+    !isFiniteNumber(value.createdAt)
+  ) {
+    throw new CalibrationStorageError('invalid', 'Saved calibration has a malformed profile');
+  }
+  if (value.calibration !== null) {
+    validateStoredCalibration(value.calibration, `profile "${value.name}"`);
+  }
+}
+
+function validateStoredCalibration(value: unknown, label: string): asserts value is StoredCalibration {
+  if (!isObject(value) || !isFiniteNumber(value.calibratedAt) || !isFiniteNumber(value.savedAt)) {
+    throw new CalibrationStorageError('invalid', `Saved ${label} is missing its timestamps`);
+  }
+
+  assertMetrics(value.goodPosture, `${label} goodPosture`);
+  assertMetrics(value.slouchedPosture, `${label} slouchedPosture`);
+  assertDistribution(value.goodDistribution, `${label} goodDistribution`);
+  assertDistribution(value.slouchedDistribution, `${label} slouchedDistribution`);
+  if (value.shoulderWidth !== undefined && !(isFiniteNumber(value.shoulderWidth) && value.shoulderWidth > 0)) {
+    throw new CalibrationStorageError('invalid', `Saved ${label} shoulderWidth is invalid`);
+  }
+  if (value.screenDistance !== undefined && !(isFiniteNumber(value.screenDistance) && value.screenDistance > 0)) {
+    throw new CalibrationStorageError('invalid', `Saved ${label} screenDistance is invalid`);
+  }
+}
+
+function assertMetrics(value: unknown, field: string): asserts value is CalibrationMetrics {
+  if (!isObject(value)) {
+    throw new CalibrationStorageError('invalid', `Saved ${field} is missing`);
+  }
+  for (const key of CALIBRATION_METRIC_KEYS) {
+    const metric = value[key];
+    const [min, max] = METRIC_RANGES[key];
+    if (!isFiniteNumber(metric) || metric < min || metric > max) {
+      throw new CalibrationStorageError('invalid', `Saved ${field}.${key} is invalid: ${String(metric)}`);
+    }
+  }
+}
+
+function assertDistribution(value: unknown, field: string): asserts value is PostureDistribution {
+  if (!isObject(value) || !isObject(value.metrics) || !Array.isArray(value.samples)) {
+    throw new CalibrationStorageError('invalid', `Saved ${field} is missing`);
+  }
+  for (const key of CALIBRATION_METRIC_KEYS) {
+    const stats = value.metrics[key];
+    if (
+      !isObject(stats) ||
+      !['mean', 'std', 'min', 'max'].every(stat => isFiniteNumber(stats[stat])) ||
+      (stats.std as number) < 0
+    ) {
+      throw new CalibrationStorageError('invalid', `Saved ${field}.${key} is invalid`);
+    }
+  }
+}
+
+function isObject(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
@@ -0,0 +1,664 @@
+/**
+ * CALIBRATION MODULE
+ * Handles one-time calibration, quick reference checks and the user's named
+ * calibration profiles (one per setup: desk, laptop, standing desk...)
+ */
+
+import {
+  CalibrationStorageError,
+  DEFAULT_PROFILE_NAME,
+  getUserProfiles,
+  readCalibrationStore,
+  removeCalibrationStore,
+  toStoredCalibration,
+  writeCalibrationStore,
+} from "./calibration-storage";
+import { CALIBRATION_METRIC_KEYS, METRIC_NOISE_FLOOR, metricSpread } from "./calibration-stats";
+import { isMetricAvailable } from "./pose-metrics";
+import type {
+  CalibrationData,
+  CalibrationMetrics,
+  CalibrationPostureType,
+  CalibrationProfile,
+  CalibrationProgress,
+  CalibrationStore,
+  MetricDistribution,
+  PostureDistribution,
+  PostureMetrics,
+  ProfileMatch,
+  QuickReference,
+  QuickReferenceProgress,
+  QuickReferenceResult,
+  RecalibrationCheck,
+} from "./posture-types";
+
+export { CALIBRATION_METRIC_KEYS, METRIC_NOISE_FLOOR };
+
+/** A captured frame; live frames also say which metrics came from hidden landmarks */
+type CalibrationFrame = CalibrationMetrics & Pick<PostureMetrics, 'unavailable'>;
+
+// Raw frames kept per posture (evenly spaced across the capture)
+const MAX_STORED_SAMPLES = 20;
+
+// Captures run for a span of frame timestamps, so they take as long at the
+// scheduler's low-battery or hidden-tab rate as at full rate; a few frames
+// more are still needed for a usable mean and spread
+const REFERENCE_DURATION = 5_000;
+const MIN_CAPTURE_FRAMES = 10;
+// The reference check gives up if it hasn't captured its 5 s by then (no
+// pose in view, a covered camera)
+const REFERENCE_TIMEOUT = 20_000;
+
+// Quick reference may differ from good posture by 15% of the calibrated
+// value or this many standard deviations, whichever is looser. A plain 15%
+// can't work for metrics centred near zero: shoulder asymmetry, head roll
+// (degrees) and head yaw. A head roll calibrated at 1° would be allowed
+// 0.15°, far below its 2° frame-to-frame noise, so every check would fail.
+// For the ratio and angle metrics 15% is the looser bound and applies as is.
+const REFERENCE_TOLERANCE = 0.15;
+const REFERENCE_TOLERANCE_SIGMAS = 3;
+
+// A profile matches the live setup when the reference posture is within this
+// many standard deviations (RMS across metrics) of its good posture — loose,
+// so a drifted posture still matches and is then caught by the 15% check...
+const PROFILE_MATCH_SIGMAS = 8;
+// ...and the shoulder width (camera distance) differs by at most this factor
+const PROFILE_MATCH_WIDTH_RATIO = 1.25;
+
+export type QuickReferenceErrorReason = 'timeout' | 'cancelled';
+
+export class QuickReferenceError extends Error {
+  constructor(readonly reason: QuickReferenceErrorReason, message: string) {
+    super(message);
+    this.name = 'QuickReferenceError';
+  }
+}
+
+export class PostureCalibrator {
+  calibrationData: CalibrationData | null = null;
+  isCalibrating = false;
+  calibrationFrames: PostureMetrics[] = [];
+  captureDuration = 6_000; // ms of frame timestamps per calibrated posture
+  currentPostureType: CalibrationPostureType = 'good';
+  userId = 'default';
+  /** Profile that saveCalibration() writes to and loadCalibration() reads */
+  activeProfileId: string | null = null;
+  /** Why the last loadCalibration() or listProfiles() rejected saved data, if it did */
+  loadError: CalibrationStorageError | null = null;
+  /** Why the last saveCalibration() failed, if it did */
+  saveError: Error | null = null;
+  /** Eye-to-screen distance (cm) to save with the next good-posture calibration */
+  screenDistance: number | null = null;
+
+  /**
+   * Start calibration process for good posture
+   */
+  startCalibration(postureType: CalibrationPostureType = 'good'): void {
+    this.isCalibrating = true;
+    this.calibrationFrames = [];
+    this.currentPostureType = postureType;
+    console.log(`🎯 Starting ${postureType} posture calibration...`);
+  }
+
+  /**
+   * Add a frame during calibration
+   */
+  addCalibrationFrame(metrics: PostureMetrics | null): CalibrationProgress | undefined {
+    if (!this.isCalibrating || !metrics) return;
+
+    this.calibrationFrames.push(metrics);
+
+    const progress = captureProgress(this.calibrationFrames, this.captureDuration);
+
+    if (progress >= 100) {
+      this.completeCalibration();
+    }
+
+    return {
+      progress,
+      framesCollected: this.calibrationFrames.length,
+      elapsed: captureElapsed(this.calibrationFrames) / 1000
+    };
+  }
+
+  /**
+   * Complete calibration and calculate average metrics
+   */
+  completeCalibration(): CalibrationMetrics | null {
+    if (this.calibrationFrames.length === 0) {
+      console.error('No calibration frames collected');
+      return null;
+    }
+
+    // Calculate average and spread of all metrics
+    const avgMetrics = this.calculateAverageMetrics(this.calibrationFrames);
+    const distribution = this.calculateDistribution(this.calibrationFrames, avgMetrics);
+
+    // Initialize calibration data if needed
+    if (!this.calibrationData) {
+      this.calibrationData = {
+        goodPosture: null,
+        slouchedPosture: null,
+        calibratedAt: Date.now()
+      };
+    }
+
+    // Store calibration
+    if (this.currentPostureType === 'good') {
+      this.calibrationData.goodPosture = avgMetrics;
+      this.calibrationData.goodDistribution = distribution;
+      this.calibrationData.shoulderWidth = this.calculateAverageShoulderWidth(this.calibrationFrames);
+      // A distance from an earlier calibration doesn't match this shoulder width
+      if (this.screenDistance) this.calibrationData.screenDistance = this.screenDistance;
+      else delete this.calibrationData.screenDistance;
+    } else {
+      this.calibrationData.slouchedPosture = avgMetrics;
+      this.calibrationData.slouchedDistribution = distribution;
+    }
+
+    this.isCalibrating = false;
+    console.log(`✅ ${this.currentPostureType} posture calibration complete:`, avgMetrics);
+
+    return avgMetrics;
+  }
+
+  /**
+   * Perform quick 5-second reference check at session start.
+   * Feed detector frames to `collector`; once enough are in, the closest
+   * calibrated profile is activated and `result` resolves. It rejects with a
+   * QuickReferenceError if the capture isn't done within `timeout` ms, or
+   * on cancel().
+   */
+  performQuickReference(
+    onProgress?: (progress: QuickReferenceProgress) => void,
+    timeout = REFERENCE_TIMEOUT
+  ): QuickReference {
+    const referenceFrames: PostureMetrics[] = [];
+    let done = false;
+    let resolveResult: (result: QuickReferenceResult) => void;
+    let rejectResult: (error: QuickReferenceError) => void;
+    const result = new Promise<QuickReferenceResult>((resolve, reject) => {
+      resolveResult = resolve;
+      rejectResult = reject;
+    });
+
+    const fail = (error: QuickReferenceError) => {
+      if (done) return;
+      done = true;
+      clearTimeout(timer);
+      rejectResult(error);
+    };
+    const timer = setTimeout(() => {
+      fail(new QuickReferenceError('timeout', `Reference check saw no steady pose within ${timeout / 1000} s`));
+    }, timeout);
+
+    const collector = (metrics: PostureMetrics | null) => {
+      if (!metrics || done) return;
+
+      referenceFrames.push(metrics);
+      const progress = captureProgress(referenceFrames, REFERENCE_DURATION);
+
+      if (onProgress) {
+        onProgress({
+          progress,
+          framesCollected: referenceFrames.length,
+          message: 'Hold your comfortable posture...'
+        });
+      }
+
+      if (progress < 100) return;
+      done = true;
+      clearTimeout(timer);
+
+      // Calculate average
+      const avgMetrics = this.calculateAverageMetrics(referenceFrames);
+      const shoulderWidth = this.calculateAverageShoulderWidth(referenceFrames);
+
+      // Pick the calibrated profile that best fits this setup
+      const matchedProfile = this.matchProfile(avgMetrics, shoulderWidth);
+      if (!matchedProfile) {
+        resolveResult({
+          referenceMetrics: avgMetrics,
+          shoulderWidth,
+          matchedProfile: null,
+          needsRecalibration: true,
+          reason: 'No calibration profile matches this setup',
+          adjustedBaseline: null
+        });
+        return;
+      }
+      if (matchedProfile.profileId !== this.activeProfileId) {
+        this.switchProfile(matchedProfile.profileId);
+      }
+
+      // Check if recalibration needed
+      const needsRecalibration = this.checkIfRecalibrationNeeded(avgMetrics);
+
+      resolveResult({
+        referenceMetrics: avgMetrics,
+        shoulderWidth,
+        matchedProfile,
+        needsRecalibration: needsRecalibration.needed,
+        reason: needsRecalibration.reason,
+        adjustedBaseline: needsRecalibration.needed ? null : avgMetrics
+      });
+    };
+
+    const cancel = () => fail(new QuickReferenceError('cancelled', 'Reference check cancelled'));
+
+    return { collector, result, cancel };
+  }
+
+  /**
+   * Find the calibrated profile closest to a reference posture and camera
+   * distance, or null if none is within tolerance
+   */
+  matchProfile(reference: CalibrationMetrics, shoulderWidth: number): ProfileMatch | null {
+    let best: ProfileMatch | null = null;
+
+    for (const profile of this.listProfiles()) {
+      const calibration = profile.calibration;
+      if (!calibration) continue;
+
+      // RMS z-score of the reference against this profile's good posture
+      let sumSquares = 0;
+      for (const key of CALIBRATION_METRIC_KEYS) {
+        const z = (reference[key] - calibration.goodPosture[key]) / metricSpread(calibration.goodDistribution, key);
+        sumSquares += z * z;
+      }
+      const postureDistance = Math.sqrt(sumSquares / CALIBRATION_METRIC_KEYS.length);
+
+      // Profiles saved before shoulder width was stored match on posture alone
+      const widthRatio = calibration.shoulderWidth
+        ? Math.max(shoulderWidth / calibration.shoulderWidth, calibration.shoulderWidth / shoulderWidth)
+        : 1;
+
+      if (postureDistance > PROFILE_MATCH_SIGMAS || widthRatio > PROFILE_MATCH_WIDTH_RATIO) continue;
+
+      const distance = Math.max(
+        postureDistance / PROFILE_MATCH_SIGMAS,
+        (widthRatio - 1) / (PROFILE_MATCH_WIDTH_RATIO - 1)
+      );
+      if (!best || distance < best.distance) {
+        best = { profileId: profile.id, name: profile.name, distance };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Calculate average metrics from array of frames, skipping frames where a
+   * metric's landmarks were hidden
+   */
+  calculateAverageMetrics(frames: CalibrationFrame[]): CalibrationMetrics {
+    const avgMetrics = {} as CalibrationMetrics;
+
+    CALIBRATION_METRIC_KEYS.forEach(key => {
+      const values = trustedValues(frames, key);
+      avgMetrics[key] = values.reduce((sum, value) => sum + value, 0) / values.length;
+    });
+
+    return avgMetrics;
+  }
+
+  /**
+   * Average shoulder width (camera distance proxy) from array of frames
+   */
+  calculateAverageShoulderWidth(frames: PostureMetrics[]): number {
+    return frames.reduce((sum, frame) => sum + frame.shoulderWidth, 0) / frames.length;
+  }
+
+  /**
+   * Calculate per-metric spread and keep a downsampled copy of the frames
+   */
+  calculateDistribution(
+    frames: CalibrationFrame[],
+    means: CalibrationMetrics = this.calculateAverageMetrics(frames)
+  ): PostureDistribution {
+    const metrics = {} as Record<keyof CalibrationMetrics, MetricDistribution>;
+
+    CALIBRATION_METRIC_KEYS.forEach(key => {
+      const values = trustedValues(frames, key);
+      const variance = values.reduce((sum, value) => sum + (value - means[key]) ** 2, 0) / values.length;
+      metrics[key] = {
+        mean: means[key],
+        std: Math.sqrt(variance),
+        min: Math.min(...values),
+        max: Math.max(...values)
+      };
+    });
+
+    const step = Math.max(1, frames.length / MAX_STORED_SAMPLES);
+    const samples: CalibrationMetrics[] = [];
+    for (let i = 0; i < frames.length && samples.length < MAX_STORED_SAMPLES; i += step) {
+      const frame = frames[Math.floor(i)];
+      const sample = {} as CalibrationMetrics;
+      CALIBRATION_METRIC_KEYS.forEach(key => {
+        sample[key] = frame[key];
+      });
+      samples.push(sample);
+    }
+
+    return { metrics, samples, frameCount: frames.length };
+  }
+
+  /**
+   * Get the stored distribution for a calibrated posture
+   */
+  getDistribution(postureType: CalibrationPostureType): PostureDistribution | null {
+    if (!this.calibrationData) return null;
+    return (postureType === 'good'
+      ? this.calibrationData.goodDistribution
+      : this.calibrationData.slouchedDistribution) ?? null;
+  }
+
+  /**
+   * Per-frame standard deviation of a metric, never below its noise floor
+   */
+  getMetricSpread(postureType: CalibrationPostureType, key: keyof CalibrationMetrics): number {
+    return metricSpread(this.getDistribution(postureType), key);
+  }
+
+  /**
+   * Check if recalibration is needed (15% tolerance, see REFERENCE_TOLERANCE)
+   */
+  checkIfRecalibrationNeeded(currentMetrics: CalibrationMetrics): RecalibrationCheck {
+    if (!this.calibrationData || !this.calibrationData.goodPosture) {
+      return { needed: true, reason: 'No calibration data found' };
+    }
+
+    const calibrated = this.calibrationData.goodPosture;
+
+    for (const metric of CALIBRATION_METRIC_KEYS) {
+      const difference = Math.abs(currentMetrics[metric] - calibrated[metric]);
+      const tolerance = Math.max(
+        Math.abs(calibrated[metric]) * REFERENCE_TOLERANCE,
+        this.getMetricSpread('good', metric) * REFERENCE_TOLERANCE_SIGMAS
+      );
+
+      if (difference > tolerance) {
+        const deviation = difference / Math.max(Math.abs(calibrated[metric]), Number.EPSILON);
+        return {
+          needed: true,
+          reason: `${metric} deviation: ${(deviation * 100).toFixed(1)}%`
+        };
+      }
+    }
+
+    return { needed: false, reason: 'Within acceptable range' };
+  }
+
+  /**
+   * Re-centre this session's baseline on a quick-reference posture.
+   * Both postures shift by the same amount, so the good → slouched gap (and
+   * any boundary fitted to it) is kept. The saved profile is not changed.
+   */
+  applyAdjustedBaseline(adjustedBaseline: CalibrationMetrics): void {
+    const data = this.calibrationData;
+    if (!data || !data.goodPosture) return;
+
+    const good = data.goodPosture;
+    const shift = (metrics: CalibrationMetrics | null): CalibrationMetrics | null => {
+      if (!metrics) return null;
+      const shifted = { ...metrics };
+      CALIBRATION_METRIC_KEYS.forEach(key => {
+        shifted[key] += adjustedBaseline[key] - good[key];
+      });
+      return shifted;
+    };
+
+    this.calibrationData = {
+      ...data,
+      goodPosture: shift(data.goodPosture),
+      slouchedPosture: shift(data.slouchedPosture)
+    };
+    console.log('📍 Session baseline adjusted to quick reference:', adjustedBaseline);
+  }
+
+  /**
+   * Save calibration to localStorage, into the active profile
+   * (a "Default" profile is created if the user has none)
+   */
+  saveCalibration(userId = this.userId): boolean {
+    this.saveError = null;
+    if (!this.calibrationData) {
+      console.error('No calibration data to save');
+      return false;
+    }
+
+    try {
+      const calibration = toStoredCalibration(this.calibrationData);
+      const store = this.readStoreForSave();
+      const user = getUserProfiles(store, userId);
+
+      let profile = user.profiles.find(p => p.id === (this.activeProfileId ?? user.activeProfileId));
+      if (!profile) {
+        profile = this.newProfile(DEFAULT_PROFILE_NAME);
+        user.profiles.push(profile);
+      }
+      profile.calibration = calibration;
+      user.activeProfileId = profile.id;
+      writeCalibrationStore(store);
+
+      this.userId = userId;
+      this.activeProfileId = profile.id;
+      this.calibrationData = calibration;
+      console.log(`💾 Calibration saved to profile "${profile.name}"`);
+      return true;
+    } catch (error) {
+      this.saveError = error instanceof Error ? error : new Error(String(error));
+      console.error('Failed to save calibration:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Load a profile's calibration from localStorage (the user's active
+   * profile unless one is given) and make that profile active.
+   * Invalid or corrupt data is rejected and reported through `loadError`.
+   */
+  loadCalibration(userId = 'default', profileId?: string): boolean {
+    this.loadError = null;
+    this.userId = userId;
+    try {
+      const user = readCalibrationStore().users[userId];
+      const profile = user?.profiles.find(p => p.id === (profileId ?? user.activeProfileId));
+      if (!profile) {
+        console.log('No saved calibration found');
+        return false;
+      }
+
+      this.activeProfileId = profile.id;
+      this.calibrationData = profile.calibration;
+      if (!profile.calibration) {
+        console.log(`Profile "${profile.name}" has not been calibrated yet`);
+        return false;
+      }
+      console.log(`✅ Calibration loaded from profile "${profile.name}"`);
+      return true;
+    } catch (error) {
+      if (error instanceof CalibrationStorageError) this.loadError = error;
+      console.error('Failed to load calibration:', error);
+      return false;
+    }
+  }
+
+  /**
+   * List this user's calibration profiles
+   */
+  listProfiles(): CalibrationProfile[] {
+    try {
+      return readCalibrationStore().users[this.userId]?.profiles ?? [];
+    } catch (error) {
+      if (!(error instanceof CalibrationStorageError)) throw error;
+      this.loadError = error;
+      return [];
+    }
+  }
+
+  getActiveProfile(): CalibrationProfile | null {
+    return this.listProfiles().find(p => p.id === this.activeProfileId) ?? null;
+  }
+
+  /**
+   * Create an empty (uncalibrated) profile
+   */
+  createProfile(name: string): CalibrationProfile {
+    const store = readCalibrationStore();
+    const user = getUserProfiles(store, this.userId);
+    const profile = this.newProfile(this.checkProfileName(user.profiles, name));
+    user.profiles.push(profile);
+    writeCalibrationStore(store);
+    console.log(`➕ Calibration profile "${profile.name}" created`);
+    return profile;
+  }
+
+  renameProfile(profileId: string, name: string): void {
+    const store = readCalibrationStore();
+    const user = getUserProfiles(store, this.userId);
+    const profile = this.findProfile(user.profiles, profileId);
+    profile.name = this.checkProfileName(user.profiles, name, profileId);
+    writeCalibrationStore(store);
+  }
+
+  /**
+   * Delete a profile. Deleting the active one activates the first remaining
+   * profile (whose calibration is loaded in its place).
+   */
+  deleteProfile(profileId: string): void {
+    const store = readCalibrationStore();
+    const user = getUserProfiles(store, this.userId);
+    const profile = this.findProfile(user.profiles, profileId);
+    user.profiles = user.profiles.filter(p => p !== profile);
+    if (user.activeProfileId === profileId) {
+      user.activeProfileId = user.profiles[0]?.id ?? null;
+    }
+    writeCalibrationStore(store);
+    console.log(`🗑️ Calibration profile "${profile.name}" deleted`);
+
+    if (this.activeProfileId === profileId) {
+      this.activeProfileId = user.activeProfileId;
+      this.calibrationData = user.profiles[0]?.calibration ?? null;
+    }
+  }
+
+  /**
+   * Make a profile active and load its calibration (null if uncalibrated)
+   */
+  switchProfile(profileId: string): void {
+    const store = readCalibrationStore();
+    const user = getUserProfiles(store, this.userId);
+    const profile = this.findProfile(user.profiles, profileId);
+    user.activeProfileId = profile.id;
+    writeCalibrationStore(store);
+
+    this.activeProfileId = profile.id;
+    this.calibrationData = profile.calibration;
+    console.log(`🔀 Switched to calibration profile "${profile.name}"`);
+  }
+
+  /**
+   * Read the store to save into; unreadable saved data is discarded, as a
+   * new calibration replaces it anyway
+   */
+  private readStoreForSave(): CalibrationStore {
+    try {
+      return readCalibrationStore();
+    } catch (error) {
+      if (!(error instanceof CalibrationStorageError)) throw error;
+      console.warn(`⚠️ Discarding unreadable saved calibration (${error.message})`);
+      removeCalibrationStore();
+      this.loadError = null;
+      return readCalibrationStore();
+    }
+  }
+
+  private newProfile(name: string): CalibrationProfile {
+    return {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      name,
+      createdAt: Date.now(),
+      calibration: null
+    };
+  }
+
+  private findProfile(profiles: CalibrationProfile[], profileId: string): CalibrationProfile {
+    const profile = profiles.find(p => p.id === profileId);
+    if (!profile) throw new Error(`Unknown calibration profile "${profileId}"`);
+    return profile;
+  }
+
+  /**
+   * Trim a profile name and make sure it is non-empty and unique
+   */
+  private checkProfileName(profiles: CalibrationProfile[], name: string, ownId?: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Profile name cannot be empty');
+    const taken = profiles.some(p => p.id !== ownId && p.name.toLowerCase() === trimmed.toLowerCase());
+    if (taken) throw new Error(`A profile named "${trimmed}" already exists`);
+    return trimmed;
+  }
+
+  /**
+   * Check if calibration exists
+   */
+  hasCalibration(): boolean {
+    return !!(
+      this.calibrationData &&
+      this.calibrationData.goodPosture &&
+      this.calibrationData.slouchedPosture
+    );
+  }
+
+  /**
+   * Get calibration data
+   */
+  getCalibrationData(): CalibrationData | null {
+    return this.calibrationData;
+  }
+
+  /**
+   * Clear the active profile's calibration (the profile itself is kept)
+   */
+  clearCalibration(): void {
+    this.calibrationData = null;
+    this.loadError = null;
+    if (this.activeProfileId) {
+      const store = readCalibrationStore();
+      const profile = getUserProfiles(store, this.userId).profiles.find(p => p.id === this.activeProfileId);
+      if (profile) {
+        profile.calibration = null;
+        writeCalibrationStore(store);
+      }
+    }
+    console.log('🗑️ Calibration cleared');
+  }
+}
+
+/**
+ * Time spanned by a capture's frame timestamps (ms)
+ */
+function captureElapsed(frames: PostureMetrics[]): number {
+  if (frames.length < 2) return 0;
+  return frames[frames.length - 1].timestamp - frames[0].timestamp;
+}
+
+/**
+ * Capture progress (0–100): complete once the frames span `duration` and
+ * there are at least MIN_CAPTURE_FRAMES of them
+ */
+function captureProgress(frames: PostureMetrics[], duration: number): number {
+  const byTime = captureElapsed(frames) / duration;
+  const byCount = frames.length / MIN_CAPTURE_FRAMES;
+  return Math.min(byTime, byCount, 1) * 100;
+}
+
+/**
+ * A metric's values from the frames where it was visible — or from every
+ * frame if it never was, so the calibration still has a value to store
+ */
+function trustedValues(frames: CalibrationFrame[], key: keyof CalibrationMetrics): number[] {
+  const visible = frames.filter(frame => isMetricAvailable(frame, key));
+  return (visible.length > 0 ? visible : frames).map(frame => frame[key]);
+}
@@ -0,0 +1,92 @@
+/**
+ * Camera-move detection on synthetic frames: a bump moves every landmark,
+ * a lean only the upper body.
+ */
+
+import { describe, expect, it } from "vitest";
+import { CameraMotionDetector } from "./camera-motion";
+import type { BodyPart, CameraMoveEvent, PostureLandmarks } from "./posture-types";
+
+const FRAME_MS = 100;
+
+const SITTING: PostureLandmarks = {
+  nose: { x: 0.51, y: 0.33, z: -0.3, visibility: 0.99 },
+  leftEar: { x: 0.56, y: 0.3, z: -0.15, visibility: 0.99 },
+  rightEar: { x: 0.44, y: 0.3, z: -0.15, visibility: 0.99 },
+  leftShoulder: { x: 0.62, y: 0.5, z: -0.1, visibility: 0.99 },
+  rightShoulder: { x: 0.38, y: 0.5, z: -0.1, visibility: 0.99 },
+  leftHip: { x: 0.6, y: 0.85, z: 0, visibility: 0.99 },
+  rightHip: { x: 0.4, y: 0.85, z: 0, visibility: 0.99 }
+};
+
+const HIPS: (keyof PostureLandmarks)[] = ['leftHip', 'rightHip'];
+
+/**
+ * Move the given landmarks (all of them by default) by (dx, dy)
+ */
+function moved(landmarks: PostureLandmarks, dx: number, dy: number, keys = Object.keys(landmarks) as (keyof PostureLandmarks)[]): PostureLandmarks {
+  const result = { ...landmarks };
+  for (const key of keys) {
+    result[key] = { ...landmarks[key], x: landmarks[key].x + dx, y: landmarks[key].y + dy };
+  }
+  return result;
+}
+
+/**
+ * The hips under the desk: MediaPipe still guesses them, with low visibility
+ */
+function hipsHidden(landmarks: PostureLandmarks): PostureLandmarks {
+  const result = { ...landmarks };
+  for (const key of HIPS) result[key] = { ...landmarks[key], visibility: 0.1 };
+  return result;
+}
+
+/**
+ * Hold `before` for a second, then switch to `after`; returns the events fired
+ */
+function run(before: PostureLandmarks, after: PostureLandmarks, hiddenParts: BodyPart[] = []): CameraMoveEvent[] {
+  const detector = new CameraMotionDetector();
+  const events: CameraMoveEvent[] = [];
+  for (let i = 0; i < 20; i++) {
+    const landmarks = i < 10 ? before : after;
+    const shoulderWidth = landmarks.leftShoulder.x - landmarks.rightShoulder.x;
+    const event = detector.update(landmarks, { timestamp: i * FRAME_MS, shoulderWidth, hiddenParts });
+    if (event) events.push(event);
+  }
+  return events;
+}
+
+describe('CameraMotionDetector', () => {
+  it('reports a bump that moves every landmark as one shift', () => {
+    const events = run(SITTING, moved(SITTING, 0.12, 0));
+
+    expect(events).toHaveLength(1);
+    expect(events[0].kind).toBe('shift');
+  });
+
+  it('ignores a lean that leaves the hips in place', () => {
+    const upperBody = (Object.keys(SITTING) as (keyof PostureLandmarks)[]).filter(key => !HIPS.includes(key));
+
+    expect(run(SITTING, moved(SITTING, 0.12, 0.04, upperBody))).toEqual([]);
+  });
+
+  it('does not take a lean for a camera move with the hips hidden', () => {
+    const sitting = hipsHidden(SITTING);
+    const upperBody = (Object.keys(SITTING) as (keyof PostureLandmarks)[]).filter(key => !HIPS.includes(key));
+
+    // Every visible landmark moves together, just like a bump would move them
+    expect(run(sitting, moved(sitting, 0.12, 0.04, upperBody), ['hips'])).toEqual([]);
+  });
+
+  it('still reports a change of scale with the hips hidden', () => {
+    const sitting = hipsHidden(SITTING);
+    const closer = { ...sitting };
+    for (const key of Object.keys(sitting) as (keyof PostureLandmarks)[]) {
+      closer[key] = { ...sitting[key], x: 0.5 + (sitting[key].x - 0.5) * 1.4 };
+    }
+
+    const events = run(sitting, closer, ['hips']);
+    expect(events).toHaveLength(1);
+    expect(events[0].kind).toBe('scale');
+  });
+});
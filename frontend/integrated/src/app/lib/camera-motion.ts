@@ -0,0 +1,103 @@
+/**
+ * CAMERA MOTION DETECTOR
+ * Tells a bumped laptop or nudged webcam apart from the user moving.
+ *
+ * When the user slouches, the head and shoulders move but the hips stay put.
+ * When the camera moves, every landmark jumps together — the same distance,
+ * within a fraction of a second — or the whole body changes scale (camera
+ * pushed closer or further away). A quick lean also moves the whole upper
+ * body together, so a shift only counts when a hip moved with it; with the
+ * hips out of frame only a change of scale reveals a camera move. Either pattern inside WINDOW fires a
+ * CameraMoveEvent, which PosePipeline attaches to the frame's metrics; the
+ * monitor then pauses instead of raising a slouch.
+ */
+
+import { isLandmarkVisible } from "./pose-metrics";
+import type { CameraMoveEvent, MediaPipeLandmark, PostureLandmarks, PostureMetrics } from "./posture-types";
+
+// How far back to compare against: a bump lands within a few frames
+const WINDOW = 600;
+// Median landmark displacement (fraction of the image) that counts as a jump
+const SHIFT_THRESHOLD = 0.08;
+// ...as long as every landmark moved at least this share of the median
+const RIGID_SHIFT_RATIO = 0.6;
+// Shoulder width ratio that counts as a sudden change of scale
+const SCALE_THRESHOLD = 1.25;
+// Landmarks that stay put when the user leans; a shift must include one
+const ANCHOR_KEYS: (keyof PostureLandmarks)[] = ['leftHip', 'rightHip'];
+
+interface FramingSample {
+  timestamp: number;
+  landmarks: PostureLandmarks;
+  /** Null while the shoulders are hidden */
+  shoulderWidth: number | null;
+}
+
+export class CameraMotionDetector {
+  private history: FramingSample[] = [];
+
+  reset(): void {
+    this.history = [];
+  }
+
+  /**
+   * Feed a frame's raw landmarks and the metrics calculated from it; returns
+   * an event if the camera appears to have moved
+   */
+  update(
+    landmarks: PostureLandmarks,
+    metrics: Pick<PostureMetrics, 'timestamp' | 'shoulderWidth' | 'hiddenParts'>
+  ): CameraMoveEvent | null {
+    const now = metrics.timestamp;
+    const shoulderWidth = metrics.hiddenParts?.includes('shoulders') ? null : metrics.shoulderWidth;
+    this.history.push({ timestamp: now, landmarks, shoulderWidth });
+    while (this.history.length > 1 && now - this.history[0].timestamp > WINDOW) {
+      this.history.shift();
+    }
+
+    const reference = this.history[0];
+    if (this.history.length < 2) return null;
+
+    const event = this.detectShift(reference, landmarks, now) ??
+      this.detectScale(reference, shoulderWidth, now);
+    if (event) {
+      // Start over from the new framing so one bump fires once
+      this.history = [];
+      console.log(`📷 Camera moved (${event.kind}, ${event.magnitude.toFixed(2)})`);
+    }
+    return event;
+  }
+
+  private detectShift(reference: FramingSample, landmarks: PostureLandmarks, timestamp: number): CameraMoveEvent | null {
+    // Hidden landmarks are guesses that jitter on their own
+    const keys = (Object.keys(landmarks) as (keyof PostureLandmarks)[])
+      .filter(key => isLandmarkVisible(landmarks[key]) && isLandmarkVisible(reference.landmarks[key]));
+    if (keys.length < 2 || !keys.some(key => ANCHOR_KEYS.includes(key))) return null;
+
+    const displacements = keys
+      .map(key => planarDistance(reference.landmarks[key], landmarks[key]))
+      .sort((a, b) => a - b);
+
+    const median = displacements[Math.floor(displacements.length / 2)];
+    const smallest = displacements[0];
+
+    if (median > SHIFT_THRESHOLD && smallest >= median * RIGID_SHIFT_RATIO) {
+      return { kind: 'shift', magnitude: median, timestamp };
+    }
+    return null;
+  }
+
+  private detectScale(reference: FramingSample, shoulderWidth: number | null, timestamp: number): CameraMoveEvent | null {
+    if (!reference.shoulderWidth || !shoulderWidth) return null;
+
+    const ratio = Math.max(shoulderWidth / reference.shoulderWidth, reference.shoulderWidth / shoulderWidth);
+    if (ratio > SCALE_THRESHOLD) {
+      return { kind: 'scale', magnitude: ratio, timestamp };
+    }
+    return null;
+  }
+}
+
+function planarDistance(a: MediaPipeLandmark, b: MediaPipeLandmark): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
@@ -0,0 +1,142 @@
+/**
+ * BALANCED CLASSIFIER
+ * Compares each frame to the session baseline (the first frame, then moved
+ * along by the monitor's adaptive baseline) with relaxed
+ * thresholds, allowing natural movement (ported from BalancedPostureMonitor).
+ * Needs no calibration. Metrics built on hidden landmarks are skipped.
+ */
+
+import type {
+  CalibrationMetrics,
+  PostureAnalysis,
+  PostureClassifier,
+  PostureMetrics,
+} from "../posture-types";
+import { CALIBRATION_METRIC_KEYS } from "../calibration-stats";
+import { isMetricAvailable } from "../pose-metrics";
+import { formatMetrics } from "./format-metrics";
+import { METRIC_ISSUE_LABELS } from "./issue-labels";
+import { fillUnavailableBaseline } from "./session-baseline";
+
+export class BalancedClassifier implements PostureClassifier {
+  readonly name = 'balanced';
+  readonly requiresCalibration = false;
+
+  private sessionBaseline: PostureMetrics | null = null;
+
+  reset(): void {
+    this.sessionBaseline = null;
+  }
+
+  rebase(baseline: CalibrationMetrics): void {
+    if (this.sessionBaseline) this.sessionBaseline = { ...this.sessionBaseline, ...baseline };
+  }
+
+  /**
+   * BALANCED slouch detection - allows natural movement!
+   */
+  analyze(currentMetrics: PostureMetrics): PostureAnalysis {
+    // Set baseline on first frame
+    if (!this.sessionBaseline) {
+      this.sessionBaseline = { ...currentMetrics };
+      console.log('📍 Baseline set - you can move naturally!');
+      return {
+        isSlouching: false,
+        issues: [],
+        severity: 'mild',
+        totalDeviation: '0.0',
+        currentMetrics: formatMetrics(currentMetrics)
+      };
+    }
+
+    this.sessionBaseline = fillUnavailableBaseline(this.sessionBaseline, currentMetrics);
+    const baseline = this.sessionBaseline;
+    const slouchIndicators: string[] = [];
+    let totalDeviation = 0;
+    const visible = (key: keyof CalibrationMetrics) => isMetricAvailable(currentMetrics, key);
+
+    // 1. HEAD-SHOULDER RATIO - relaxed threshold
+    const headShoulderChange =
+      ((currentMetrics.headShoulderRatio - baseline.headShoulderRatio) / baseline.headShoulderRatio) * 100;
+
+    // RELAXED: Only alert if head drifted forward by more than 25%
+    if (visible('headShoulderRatio') && headShoulderChange > 25) {
+      slouchIndicators.push(METRIC_ISSUE_LABELS.headShoulderRatio);
+      totalDeviation += headShoulderChange;
+    }
+
+    // 2. SHOULDER ASYMMETRY - very relaxed
+    const shoulderAsymmetryChange =
+      ((currentMetrics.shoulderAsymmetry - baseline.shoulderAsymmetry) / (baseline.shoulderAsymmetry + 0.01)) * 100;
+
+    // RELAXED: Only care if really leaning to one side
+    if (visible('shoulderAsymmetry') && shoulderAsymmetryChange > 40) {
+      slouchIndicators.push(METRIC_ISSUE_LABELS.shoulderAsymmetry);
+      totalDeviation += shoulderAsymmetryChange / 2;
+    }
+
+    // 3. TORSO ANGLE - relaxed
+    const torsoAngleChange = Math.abs(currentMetrics.torsoAngle - baseline.torsoAngle);
+
+    // RELAXED: Allow up to 20 degrees of spine movement
+    if (visible('torsoAngle') && torsoAngleChange > 20) {
+      slouchIndicators.push(METRIC_ISSUE_LABELS.torsoAngle);
+      totalDeviation += torsoAngleChange;
+    }
+
+    // 4. FORWARD LEAN - relaxed
+    const forwardLeanChange =
+      ((currentMetrics.forwardLean - baseline.forwardLean) / (baseline.forwardLean + 0.01)) * 100;
+
+    // RELAXED: Only alert if really leaning into screen
+    if (visible('forwardLean') && forwardLeanChange > 35) {
+      slouchIndicators.push(METRIC_ISSUE_LABELS.forwardLean);
+      totalDeviation += forwardLeanChange;
+    }
+
+    // 5. NECK ANGLE - relaxed
+    const neckAngleChange = Math.abs(currentMetrics.neckAngle - baseline.neckAngle);
+
+    // RELAXED: Allow significant head movement
+    if (visible('neckAngle') && neckAngleChange > 25) {
+      slouchIndicators.push(METRIC_ISSUE_LABELS.neckAngle);
+      totalDeviation += neckAngleChange;
+    }
+
+    // 6. HEAD ROLL - relaxed
+    const headRollChange = Math.abs(currentMetrics.headRoll - baseline.headRoll);
+
+    // RELAXED: Allow a casual sideways tilt
+    if (visible('headRoll') && headRollChange > 15) {
+      slouchIndicators.push(METRIC_ISSUE_LABELS.headRoll);
+      totalDeviation += headRollChange;
+    }
+
+    // 7. HEAD YAW - relaxed
+    const headYawChange = Math.abs(currentMetrics.headYaw - baseline.headYaw);
+
+    // RELAXED: Glancing away is fine, only a clear turn counts
+    if (visible('headYaw') && headYawChange > 0.25) {
+      slouchIndicators.push(METRIC_ISSUE_LABELS.headYaw);
+      totalDeviation += headYawChange * 100;
+    }
+
+    // RELAXED CRITERIA: Need 2 indicators (or every visible metric, if fewer)
+    // AND significant total deviation. This prevents false positives from small movements
+    const checked = CALIBRATION_METRIC_KEYS.filter(visible).length;
+    const isSlouching = checked > 0 && slouchIndicators.length >= Math.min(2, checked) && totalDeviation > 40;
+
+    // Calculate severity
+    let severity: PostureAnalysis['severity'] = 'mild';
+    if (totalDeviation > 80) severity = 'severe';
+    else if (totalDeviation > 60) severity = 'moderate';
+
+    return {
+      isSlouching,
+      issues: slouchIndicators,
+      severity,
+      totalDeviation: totalDeviation.toFixed(1),
+      currentMetrics: formatMetrics(currentMetrics)
+    };
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * PERSONAL BOUNDARY CLASSIFIER
+ * Learns a per-user decision boundary from both calibration clusters instead
+ * of fixed tolerances around good posture.
+ *
+ * Each metric gets the weight (bad − good) / σ² (a diagonal linear
+ * discriminant, σ pooled from both postures' calibration frames), so
+ * metrics that separate this user's good and slouched posture well —
+ * relative to their frame-to-frame noise — dominate, and metrics that
+ * barely change are ignored. Each frame is projected onto the good → bad
+ * axis; the position along it gives a continuous slouch probability.
+ * Subtle but consistent slouches are flagged because the boundary sits
+ * halfway between *this* user's two postures. Metrics built on hidden
+ * landmarks are left out of the projection for that frame.
+ */
+
+import { CALIBRATION_METRIC_KEYS, type PostureCalibrator } from "../calibration";
+import { isMetricAvailable } from "../pose-metrics";
+import type {
+  CalibrationMetrics,
+  PostureAnalysis,
+  PostureClassifier,
+  PostureMetrics,
+} from "../posture-types";
+import { CalibratedClassifier } from "./calibrated-classifier";
+import { formatMetrics } from "./format-metrics";
+import { METRIC_ISSUE_LABELS } from "./issue-labels";
+
+type MetricKey = keyof CalibrationMetrics;
+
+// Below this Mahalanobis distance the two clusters overlap too much to
+// separate reliably, and the fixed-tolerance classifier is used instead
+const MIN_SEPARATION = 1.5;
+
+// A metric is named as an issue once it accounts for this share of the
+// distance to the slouched centroid
+const ISSUE_SHARE = 0.25;
+
+interface BoundaryModel {
+  good: CalibrationMetrics;
+  bad: CalibrationMetrics;
+  weights: CalibrationMetrics;
+  /** Projection score of the slouched centroid (good centroid scores 0) */
+  badScore: number;
+  /** Mahalanobis distance between the two centroids */
+  separation: number;
+}
+
+export class BoundaryClassifier implements PostureClassifier {
+  readonly name = 'personal-boundary';
+  readonly requiresCalibration = true;
+
+  /** Slouch probability at or above which a frame counts as slouched */
+  threshold: number;
+
+  private model: BoundaryModel | null = null;
+  private fallback: CalibratedClassifier;
+
+  constructor(private calibrator: PostureCalibrator, threshold = 0.5) {
+    this.threshold = threshold;
+    this.fallback = new CalibratedClassifier(calibrator);
+  }
+
+  analyze(currentMetrics: PostureMetrics): PostureAnalysis {
+    const model = this.getModel();
+
+    // Only visible metrics take part; the clusters must still separate on those
+    const visibleKeys = CALIBRATION_METRIC_KEYS.filter(key => isMetricAvailable(currentMetrics, key));
+    const badScore = visibleKeys.reduce(
+      (sum, key) => sum + model.weights[key] * (model.bad[key] - model.good[key]), 0
+    );
+    if (Math.sqrt(badScore) < MIN_SEPARATION) {
+      return this.fallback.analyze(currentMetrics);
+    }
+
+    // Position along the good → bad axis: 0 = good centroid, 1 = slouched centroid
+    const contributions = {} as CalibrationMetrics;
+    let score = 0;
+    for (const key of CALIBRATION_METRIC_KEYS) {
+      contributions[key] = visibleKeys.includes(key)
+        ? model.weights[key] * (currentMetrics[key] - model.good[key])
+        : 0;
+      score += contributions[key];
+    }
+    const position = score / badScore;
+
+    // Equal-prior LDA posterior: logistic in the discriminant, centred on the midpoint
+    const slouchProbability = 1 / (1 + Math.exp(-badScore * (position - 0.5)));
+    const isSlouching = slouchProbability >= this.threshold;
+
+    const issues = CALIBRATION_METRIC_KEYS
+      .filter(key => contributions[key] / badScore >= ISSUE_SHARE)
+      .sort((a, b) => contributions[b] - contributions[a])
+      .map(key => METRIC_ISSUE_LABELS[key]);
+    if (isSlouching && issues.length === 0) issues.push('drifting towards your slouch');
+
+    let severity: PostureAnalysis['severity'] = 'mild';
+    if (slouchProbability > 0.95) severity = 'severe';
+    else if (slouchProbability > 0.8) severity = 'moderate';
+
+    return {
+      isSlouching,
+      issues,
+      severity,
+      // How far towards the calibrated slouch, in percent
+      totalDeviation: (Math.max(position, 0) * 100).toFixed(1),
+      slouchProbability,
+      currentMetrics: formatMetrics(currentMetrics)
+    };
+  }
+
+  /**
+   * Fit (or reuse) the boundary for the calibrator's current data
+   */
+  private getModel(): BoundaryModel {
+    const calibration = this.calibrator.getCalibrationData();
+    if (!calibration || !calibration.goodPosture || !calibration.slouchedPosture) {
+      throw new Error('BoundaryClassifier requires good and slouched posture calibration');
+    }
+    // Refit whenever either calibrated posture is replaced
+    if (
+      this.model &&
+      this.model.good === calibration.goodPosture &&
+      this.model.bad === calibration.slouchedPosture
+    ) {
+      return this.model;
+    }
+
+    const good = calibration.goodPosture;
+    const bad = calibration.slouchedPosture;
+    const weights = {} as CalibrationMetrics;
+    let badScore = 0;
+
+    for (const key of CALIBRATION_METRIC_KEYS) {
+      const variance = this.getSpread(key) ** 2;
+      const difference = bad[key] - good[key];
+      weights[key] = difference / variance;
+      badScore += difference * weights[key];
+    }
+
+    this.model = { good, bad, weights, badScore, separation: Math.sqrt(badScore) };
+    console.log(`📐 Personal boundary fitted (separation ${this.model.separation.toFixed(2)}σ)`);
+    return this.model;
+  }
+
+  /**
+   * Per-frame standard deviation to scale a metric by, pooled across both postures
+   */
+  private getSpread(key: MetricKey): number {
+    const good = this.calibrator.getMetricSpread('good', key);
+    const bad = this.calibrator.getMetricSpread('slouched', key);
+    return Math.sqrt((good ** 2 + bad ** 2) / 2);
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * CALIBRATED CLASSIFIER
+ * Compares each frame to the user's calibrated good posture (the original
+ * CalibratedPostureMonitor algorithm). Tolerances are a number of standard
+ * deviations of the user's own good-posture frames, so a jittery metric
+ * gets a wider band than a steady one. Metrics built on hidden landmarks are
+ * skipped and their weight is shared out among the visible ones.
+ */
+
+import type { PostureCalibrator } from "../calibration";
+import { isMetricAvailable } from "../pose-metrics";
+import type {
+  CalibrationMetrics,
+  PostureAnalysis,
+  PostureClassifier,
+  PostureMetrics,
+} from "../posture-types";
+import { formatMetrics } from "./format-metrics";
+import { METRIC_ISSUE_LABELS } from "./issue-labels";
+
+/**
+ * How many standard deviations from good posture each metric may move
+ */
+export const TOLERANCE_SIGMAS: CalibrationMetrics = {
+  headShoulderRatio: 5,
+  shoulderAsymmetry: 3,
+  torsoAngle: 6,
+  neckAngle: 6,
+  forwardLean: 5,
+  headRoll: 5,
+  headYaw: 5
+};
+
+export class CalibratedClassifier implements PostureClassifier {
+  readonly name = 'calibrated';
+  readonly requiresCalibration = true;
+
+  constructor(private calibrator: PostureCalibrator) {}
+
+  /**
+   * Analyze posture by comparing to calibrated good posture
+   */
+  analyze(currentMetrics: PostureMetrics): PostureAnalysis {
+    const calibration = this.calibrator.getCalibrationData();
+    if (!calibration || !calibration.goodPosture) {
+      throw new Error('CalibratedClassifier requires good posture calibration');
+    }
+    const goodPosture = calibration.goodPosture;
+
+    const issues: string[] = [];
+    let totalDeviation = 0;
+    let totalWeight = 0;
+    let checkedWeight = 0;
+    let checkedCount = 0;
+
+    // Each metric contributes (distance / tolerance) × weight once it leaves its tolerance band
+    const check = (key: keyof CalibrationMetrics, distance: number, weight: number) => {
+      totalWeight += weight;
+      if (!isMetricAvailable(currentMetrics, key)) return;
+      checkedWeight += weight;
+      checkedCount++;
+
+      const tolerance = TOLERANCE_SIGMAS[key] * this.calibrator.getMetricSpread('good', key);
+      if (distance > tolerance) {
+        issues.push(METRIC_ISSUE_LABELS[key]);
+        totalDeviation += (distance / tolerance) * weight;
+      }
+    };
+
+    // === 1. HEAD-SHOULDER RATIO ===
+    check('headShoulderRatio', Math.abs(currentMetrics.headShoulderRatio - goodPosture.headShoulderRatio), 30);
+
+    // === 2. SHOULDER ASYMMETRY ===
+    // Only more asymmetry than calibrated counts
+    check('shoulderAsymmetry', currentMetrics.shoulderAsymmetry - goodPosture.shoulderAsymmetry, 20);
+
+    // === 3. TORSO ANGLE ===
+    check('torsoAngle', Math.abs(currentMetrics.torsoAngle - goodPosture.torsoAngle), 25);
+
+    // === 4. NECK ANGLE ===
+    check('neckAngle', Math.abs(currentMetrics.neckAngle - goodPosture.neckAngle), 20);
+
+    // === 5. FORWARD LEAN ===
+    check('forwardLean', Math.abs(currentMetrics.forwardLean - goodPosture.forwardLean), 15);
+
+    // === 6. HEAD ROLL ===
+    check('headRoll', Math.abs(currentMetrics.headRoll - goodPosture.headRoll), 15);
+
+    // === 7. HEAD YAW ===
+    check('headYaw', Math.abs(currentMetrics.headYaw - goodPosture.headYaw), 15);
+
+    // Hidden metrics hand their weight to the visible ones
+    if (checkedWeight > 0) totalDeviation *= totalWeight / checkedWeight;
+
+    // === OVERALL ASSESSMENT ===
+    // Need at least 2 issues (or every visible metric, if fewer) OR total deviation > 35
+    const isSlouching = checkedCount > 0 && (issues.length >= Math.min(2, checkedCount) || totalDeviation > 35);
+
+    // Calculate severity
+    let severity: PostureAnalysis['severity'] = 'mild';
+    if (totalDeviation > 60) severity = 'severe';
+    else if (totalDeviation > 40) severity = 'moderate';
+
+    return {
+      isSlouching,
+      issues,
+      severity,
+      totalDeviation: totalDeviation.toFixed(1),
+      currentMetrics: formatMetrics(currentMetrics)
+    };
+  }
+}
@@ -0,0 +1,16 @@
+import type { PostureAnalysis, PostureMetrics } from "../posture-types";
+
+/**
+ * Human-readable metric snapshot shared by every classifier's analysis
+ */
+export function formatMetrics(metrics: PostureMetrics): PostureAnalysis['currentMetrics'] {
+  return {
+    headShoulder: metrics.headShoulderRatio.toFixed(3),
+    shoulders: metrics.shoulderAsymmetry.toFixed(3),
+    torso: metrics.torsoAngle.toFixed(1) + '°',
+    neck: metrics.neckAngle.toFixed(1) + '°',
+    lean: metrics.forwardLean.toFixed(3),
+    roll: metrics.headRoll.toFixed(1) + '°',
+    yaw: metrics.headYaw.toFixed(3)
+  };
+}
@@ -0,0 +1,20 @@
+import type { CalibrationMetrics } from "../posture-types";
+
+/**
+ * Issue label reported when a metric moves away from good posture
+ */
+export const METRIC_ISSUE_LABELS: Record<keyof CalibrationMetrics, string> = {
+  headShoulderRatio: 'forward head posture',
+  shoulderAsymmetry: 'uneven shoulders',
+  torsoAngle: 'hunched spine',
+  neckAngle: 'head tilted down',
+  forwardLean: 'leaning into screen',
+  headRoll: 'head tilted sideways',
+  headYaw: 'head turned away from screen'
+};
+
+/**
+ * Issue label reported while a hand has rested against the face (chin or
+ * cheek propped on it) for longer than the monitor's threshold
+ */
+export const HAND_ON_FACE_ISSUE = 'chin resting on hand';
@@ -0,0 +1,238 @@
+/**
+ * RATIO / DRIFT CLASSIFIER
+ * The original PostureMonitor's two detection strategies:
+ *   - ratio: compare each frame to calibrated good posture
+ *   - drift: detect gradual deterioration from the session baseline (the
+ *            first frame, then moved along by the monitor's adaptive baseline)
+ *   - both:  ratio first, drift as a fallback
+ * Metrics built on hidden landmarks are skipped by both.
+ */
+
+import type { PostureCalibrator } from "../calibration";
+import { isMetricAvailable } from "../pose-metrics";
+import type {
+  CalibrationMetrics,
+  PostureAnalysis,
+  PostureClassifier,
+  PostureMetrics,
+} from "../posture-types";
+import { formatMetrics } from "./format-metrics";
+import { METRIC_ISSUE_LABELS } from "./issue-labels";
+import { fillUnavailableBaseline } from "./session-baseline";
+
+export type RatioDriftStrategy = 'ratio' | 'drift' | 'both';
+
+// Ratio strategy tolerances, in standard deviations of calibrated good posture
+const RATIO_TOLERANCE_SIGMAS = {
+  headShoulderRatio: 5,
+  shoulderAsymmetry: 2,
+  torsoAngle: 6,
+  forwardLean: 4,
+  headRoll: 5,
+  headYaw: 5
+};
+
+interface StrategyResult {
+  indicators: string[];
+  deviation: number;
+  /** How many metrics were visible to check */
+  checked: number;
+  /** Drift strategy: how far each flagged metric moved from the session baseline */
+  drift?: PostureAnalysis['drift'];
+}
+
+export class RatioDriftClassifier implements PostureClassifier {
+  readonly name: string;
+  readonly requiresCalibration: boolean;
+
+  private sessionBaseline: PostureMetrics | null = null;
+
+  constructor(private calibrator: PostureCalibrator, private strategy: RatioDriftStrategy = 'both') {
+    this.name = strategy === 'both' ? 'ratio-drift' : strategy;
+    this.requiresCalibration = strategy !== 'drift';
+  }
+
+  reset(): void {
+    this.sessionBaseline = null;
+  }
+
+  rebase(baseline: CalibrationMetrics): void {
+    if (this.sessionBaseline) this.sessionBaseline = { ...this.sessionBaseline, ...baseline };
+  }
+
+  analyze(metrics: PostureMetrics): PostureAnalysis {
+    // Set session baseline on first frame
+    if (!this.sessionBaseline) {
+      this.sessionBaseline = { ...metrics };
+      console.log('📍 Session baseline set:', this.sessionBaseline);
+    }
+    this.sessionBaseline = fillUnavailableBaseline(this.sessionBaseline, metrics);
+
+    let result: StrategyResult = { indicators: [], deviation: 0, checked: 0 };
+    let isSlouching = false;
+
+    // STRATEGY 1: Ratio-based detection (compare to calibration)
+    if (this.strategy === 'ratio' || this.strategy === 'both') {
+      const ratioResult = this.checkRatioBasedPosture(metrics);
+      // Need at least 2 indicators (or every visible metric, if fewer)
+      if (ratioResult.checked > 0 && ratioResult.indicators.length >= Math.min(2, ratioResult.checked)) {
+        result = ratioResult;
+        isSlouching = true;
+      }
+    }
+
+    // STRATEGY 2: Drift detection (compare to session start)
+    if (!isSlouching && (this.strategy === 'drift' || this.strategy === 'both')) {
+      const driftResult = this.checkDriftBasedPosture(metrics);
+      if (driftResult.indicators.length >= 1) {
+        result = driftResult;
+        isSlouching = true;
+      }
+    }
+
+    let severity: PostureAnalysis['severity'] = 'mild';
+    if (result.indicators.length >= 4) severity = 'severe';
+    else if (result.indicators.length === 3) severity = 'moderate';
+
+    return {
+      isSlouching,
+      issues: result.indicators,
+      severity,
+      totalDeviation: result.deviation.toFixed(1),
+      ...(result.drift && { drift: result.drift }),
+      currentMetrics: formatMetrics(metrics)
+    };
+  }
+
+  /**
+   * STRATEGY 1: Ratio-based posture detection
+   * Compares current metrics to calibrated good posture
+   */
+  private checkRatioBasedPosture(currentMetrics: PostureMetrics): StrategyResult {
+    const calibration = this.calibrator.getCalibrationData();
+
+    if (!calibration || !calibration.goodPosture) {
+      return { indicators: [], deviation: 0, checked: 0 };
+    }
+
+    const good = calibration.goodPosture;
+    const sigma = (key: keyof typeof RATIO_TOLERANCE_SIGMAS) =>
+      this.calibrator.getMetricSpread('good', key);
+    const visible = (key: keyof typeof RATIO_TOLERANCE_SIGMAS) => isMetricAvailable(currentMetrics, key);
+    const checked = (Object.keys(RATIO_TOLERANCE_SIGMAS) as (keyof typeof RATIO_TOLERANCE_SIGMAS)[])
+      .filter(visible).length;
+    const indicators: string[] = [];
+    let deviation = 0;
+
+    // 1. Head-shoulder ratio check (most important)
+    const headShoulderDiff = Math.abs(currentMetrics.headShoulderRatio - good.headShoulderRatio);
+    if (visible('headShoulderRatio') &&
+        headShoulderDiff > RATIO_TOLERANCE_SIGMAS.headShoulderRatio * sigma('headShoulderRatio')) {
+      indicators.push(METRIC_ISSUE_LABELS.headShoulderRatio);
+      deviation += (headShoulderDiff / good.headShoulderRatio) * 100;
+    }
+
+    // 2. Shoulder asymmetry check
+    const shoulderAsymmetryDiff = currentMetrics.shoulderAsymmetry - good.shoulderAsymmetry;
+    if (visible('shoulderAsymmetry') &&
+        shoulderAsymmetryDiff > RATIO_TOLERANCE_SIGMAS.shoulderAsymmetry * sigma('shoulderAsymmetry')) {
+      indicators.push(METRIC_ISSUE_LABELS.shoulderAsymmetry);
+      deviation += (shoulderAsymmetryDiff / (good.shoulderAsymmetry + 0.01)) * 100;
+    }
+
+    // 3. Torso angle check
+    const torsoAngleDiff = Math.abs(currentMetrics.torsoAngle - good.torsoAngle);
+    if (visible('torsoAngle') && torsoAngleDiff > RATIO_TOLERANCE_SIGMAS.torsoAngle * sigma('torsoAngle')) {
+      indicators.push(METRIC_ISSUE_LABELS.torsoAngle);
+      deviation += torsoAngleDiff;
+    }
+
+    // 4. Forward lean check
+    const forwardLeanDiff = currentMetrics.forwardLean - good.forwardLean;
+    if (visible('forwardLean') && forwardLeanDiff > RATIO_TOLERANCE_SIGMAS.forwardLean * sigma('forwardLean')) {
+      indicators.push(METRIC_ISSUE_LABELS.forwardLean);
+      deviation += (forwardLeanDiff / (good.forwardLean + 0.01)) * 100;
+    }
+
+    // 5. Head roll check
+    const headRollDiff = Math.abs(currentMetrics.headRoll - good.headRoll);
+    if (visible('headRoll') && headRollDiff > RATIO_TOLERANCE_SIGMAS.headRoll * sigma('headRoll')) {
+      indicators.push(METRIC_ISSUE_LABELS.headRoll);
+      deviation += headRollDiff;
+    }
+
+    // 6. Head yaw check
+    const headYawDiff = Math.abs(currentMetrics.headYaw - good.headYaw);
+    if (visible('headYaw') && headYawDiff > RATIO_TOLERANCE_SIGMAS.headYaw * sigma('headYaw')) {
+      indicators.push(METRIC_ISSUE_LABELS.headYaw);
+      deviation += headYawDiff * 100;
+    }
+
+    return { indicators, deviation, checked };
+  }
+
+  /**
+   * STRATEGY 2: Drift-based posture detection
+   * Detects gradual deterioration from session start
+   */
+  private checkDriftBasedPosture(currentMetrics: PostureMetrics): StrategyResult {
+    const baseline = this.sessionBaseline;
+    if (!baseline) {
+      return { indicators: [], deviation: 0, checked: 0 };
+    }
+    const visible = (key: keyof CalibrationMetrics) => isMetricAvailable(currentMetrics, key);
+    const checked = (['headShoulderRatio', 'shoulderAsymmetry', 'forwardLean', 'headRoll', 'headYaw'] as const)
+      .filter(visible).length;
+
+    const indicators: string[] = [];
+    const drift: NonNullable<StrategyResult['drift']> = {};
+    let deviation = 0;
+
+    // Calculate percentage change from baseline
+    const headShoulderDrift =
+      ((currentMetrics.headShoulderRatio - baseline.headShoulderRatio) / baseline.headShoulderRatio) * 100;
+
+    const shoulderAsymmetryDrift =
+      ((currentMetrics.shoulderAsymmetry - baseline.shoulderAsymmetry) / (baseline.shoulderAsymmetry + 0.01)) * 100;
+
+    const forwardLeanDrift =
+      ((currentMetrics.forwardLean - baseline.forwardLean) / (baseline.forwardLean + 0.01)) * 100;
+
+    // Head roll and yaw sit near zero, so they drift in absolute terms
+    const headRollDrift = Math.abs(currentMetrics.headRoll - baseline.headRoll);
+    const headYawDrift = Math.abs(currentMetrics.headYaw - baseline.headYaw);
+
+    // Check for significant drift (>20% change)
+    if (visible('headShoulderRatio') && Math.abs(headShoulderDrift) > 20) {
+      indicators.push(METRIC_ISSUE_LABELS.headShoulderRatio);
+      drift.headShoulderRatio = headShoulderDrift;
+      deviation += Math.abs(headShoulderDrift);
+    }
+
+    if (visible('shoulderAsymmetry') && shoulderAsymmetryDrift > 25) {
+      indicators.push(METRIC_ISSUE_LABELS.shoulderAsymmetry);
+      drift.shoulderAsymmetry = shoulderAsymmetryDrift;
+      deviation += shoulderAsymmetryDrift;
+    }
+
+    if (visible('forwardLean') && forwardLeanDrift > 25) {
+      indicators.push(METRIC_ISSUE_LABELS.forwardLean);
+      drift.forwardLean = forwardLeanDrift;
+      deviation += forwardLeanDrift;
+    }
+
+    if (visible('headRoll') && headRollDrift > 12) {
+      indicators.push(METRIC_ISSUE_LABELS.headRoll);
+      drift.headRoll = headRollDrift;
+      deviation += headRollDrift;
+    }
+
+    if (visible('headYaw') && headYawDrift > 0.2) {
+      indicators.push(METRIC_ISSUE_LABELS.headYaw);
+      drift.headYaw = headYawDrift;
+      deviation += headYawDrift * 100;
+    }
+
+    return { indicators, deviation, checked, drift };
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * CLASSIFIER REGISTRY
+ * Maps strategy names to PostureClassifier factories so callers (e.g.
+ * usePostureMonitor) can pick or A/B an algorithm by name.
+ */
+
+import type { PostureCalibrator } from "../calibration";
+import type { PostureClassifier } from "../posture-types";
+import { BalancedClassifier } from "./balanced-classifier";
+import { BoundaryClassifier } from "./boundary-classifier";
+import { CalibratedClassifier } from "./calibrated-classifier";
+import { RatioDriftClassifier } from "./ratio-drift-classifier";
+
+export interface ClassifierContext {
+  calibrator: PostureCalibrator;
+}
+
+export type ClassifierFactory = (context: ClassifierContext) => PostureClassifier;
+
+export type BuiltinClassifierName =
+  | 'calibrated'
+  | 'personal-boundary'
+  | 'balanced'
+  | 'ratio'
+  | 'drift'
+  | 'ratio-drift';
+
+export const DEFAULT_CLASSIFIER: BuiltinClassifierName = 'calibrated';
+
+const factories = new Map<string, ClassifierFactory>();
+
+/**
+ * Register (or replace) a classifier under `name`
+ */
+export function registerClassifier(name: string, factory: ClassifierFactory): void {
+  factories.set(name, factory);
+}
+
+/**
+ * Create a fresh classifier instance by name
+ */
+export function createClassifier(
+  name: BuiltinClassifierName | (string & {}),
+  context: ClassifierContext
+): PostureClassifier {
+  const factory = factories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown posture classifier "${name}" (available: ${getClassifierNames().join(', ')})`);
+  }
+  return factory(context);
+}
+
+export function getClassifierNames(): string[] {
+  return [...factories.keys()];
+}
+
+registerClassifier('calibrated', ({ calibrator }) => new CalibratedClassifier(calibrator));
+registerClassifier('personal-boundary', ({ calibrator }) => new BoundaryClassifier(calibrator));
+registerClassifier('balanced', () => new BalancedClassifier());
+registerClassifier('ratio', ({ calibrator }) => new RatioDriftClassifier(calibrator, 'ratio'));
+registerClassifier('drift', ({ calibrator }) => new RatioDriftClassifier(calibrator, 'drift'));
+registerClassifier('ratio-drift', ({ calibrator }) => new RatioDriftClassifier(calibrator, 'both'));
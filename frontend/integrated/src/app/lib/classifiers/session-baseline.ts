@@ -0,0 +1,20 @@
+import { CALIBRATION_METRIC_KEYS } from "../calibration-stats";
+import { isMetricAvailable } from "../pose-metrics";
+import type { PostureMetrics } from "../posture-types";
+
+/**
+ * Fill in session-baseline metrics that were taken from hidden landmarks
+ * (e.g. torso angle while the hips were under the desk) as soon as a frame
+ * sees them properly
+ */
+export function fillUnavailableBaseline(baseline: PostureMetrics, metrics: PostureMetrics): PostureMetrics {
+  const missing = CALIBRATION_METRIC_KEYS.filter(
+    key => !isMetricAvailable(baseline, key) && isMetricAvailable(metrics, key)
+  );
+  if (missing.length === 0) return baseline;
+
+  const filled = { ...baseline };
+  for (const key of missing) filled[key] = metrics[key];
+  filled.unavailable = baseline.unavailable?.filter(key => !missing.includes(key));
+  return filled;
+}
@@ -0,0 +1,74 @@
+/**
+ * TYPED EVENT EMITTER
+ * Multi-subscriber events keyed by an event map, e.g.
+ * TypedEventEmitter<PostureEventMap>. Every subscription returns its own
+ * unsubscribe handle, so widgets can come and go without clearing each
+ * other's handlers.
+ */
+
+export type EventHandler<T> = (event: T) => void;
+export type Unsubscribe = () => void;
+
+export class TypedEventEmitter<Events extends object> {
+  private handlers = new Map<keyof Events, Set<EventHandler<never>>>();
+
+  /**
+   * Call `handler` on every `type` event until the returned handle is called
+   */
+  on<K extends keyof Events>(type: K, handler: EventHandler<Events[K]>): Unsubscribe {
+    let handlers = this.handlers.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(type, handlers);
+    }
+    handlers.add(handler);
+    return () => this.off(type, handler);
+  }
+
+  /**
+   * Call `handler` on the next `type` event only
+   */
+  once<K extends keyof Events>(type: K, handler: EventHandler<Events[K]>): Unsubscribe {
+    const unsubscribe = this.on(type, (event) => {
+      unsubscribe();
+      handler(event);
+    });
+    return unsubscribe;
+  }
+
+  off<K extends keyof Events>(type: K, handler: EventHandler<Events[K]>): void {
+    const handlers = this.handlers.get(type);
+    if (!handlers) return;
+    handlers.delete(handler);
+    if (handlers.size === 0) this.handlers.delete(type);
+  }
+
+  /**
+   * Deliver an event to every handler subscribed when it was emitted. A
+   * throwing handler is logged and doesn't stop the others.
+   */
+  emit<K extends keyof Events>(type: K, event: Events[K]): void {
+    const handlers = this.handlers.get(type);
+    if (!handlers) return;
+
+    for (const handler of [...handlers] as EventHandler<Events[K]>[]) {
+      try {
+        handler(event);
+      } catch (error) {
+        console.error(`❌ "${String(type)}" handler failed:`, error);
+      }
+    }
+  }
+
+  listenerCount(type: keyof Events): number {
+    return this.handlers.get(type)?.size ?? 0;
+  }
+
+  /**
+   * Drop every handler (of one type, or all)
+   */
+  clear(type?: keyof Events): void {
+    if (type === undefined) this.handlers.clear();
+    else this.handlers.delete(type);
+  }
+}
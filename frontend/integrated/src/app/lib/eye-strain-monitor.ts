@@ -0,0 +1,208 @@
+/**
+ * EYE STRAIN MONITOR
+ * Counts blinks and unbroken stares from Face Mesh eye metrics and raises a
+ * 20-20-20 reminder: every 20 minutes at the screen, look at something 20
+ * feet (6 m) away for 20 seconds. A low blink rate or a long stare brings the
+ * reminder forward.
+ *
+ * Blinks are found against the user's own open-eye reference rather than a
+ * fixed eye aspect ratio, which varies with face shape and camera angle.
+ */
+
+import type { EyeBreakEvent, EyeMetrics, EyeStrainStats } from "./posture-types";
+
+// A gap longer than this (tab throttled, camera stalled) is not counted as
+// screen time
+const MAX_FRAME_GAP = 2000;
+// Blinks last 100–400 ms: frames further apart can miss one, so counting
+// starts over (hidden tab, low battery)
+const MAX_BLINK_FRAME_GAP = 200;
+// Eyes shut longer than this were resting or looking down, not blinking
+const MAX_BLINK_DURATION = 500;
+// How quickly the open-eye reference follows the user's normal eye opening
+const OPEN_EYE_SMOOTHING = 0.05;
+
+export class EyeStrainMonitor {
+  // 20-20-20 timing
+  breakInterval = 20 * 60_000; // 20 minutes at the screen between breaks
+  breakDuration = 20_000; // 20 seconds out of view completes a break
+  minBreakInterval = 5 * 60_000; // strain never brings a break closer than 5 minutes
+
+  // Strain signals
+  lowBlinkRate = 8; // blinks per minute — relaxed blinking is 15–20
+  blinkRateWindow = 60_000; // blinks are counted over the last minute
+  maxStareDuration = 20_000; // 20 seconds without a blink counts as staring
+  blinkCloseRatio = 0.75; // below this share of the open-eye reference = eyes closed
+  blinkOpenRatio = 0.85; // above this share = open again (hysteresis)
+
+  isReminding = false;
+  screenTime = 0; // ms facing the screen since the last break
+
+  // Callbacks
+  onEyeBreakDue: ((event: EyeBreakEvent) => void) | null = null;
+  onEyeBreakTaken: (() => void) | null = null;
+
+  private openEyeReference: number | null = null;
+  private eyesClosedAt: number | null = null;
+  private blinkTimes: number[] = [];
+  private blinkCountingSince: number | null = null;
+  private stareStartedAt: number | null = null;
+  private awayStartedAt: number | null = null;
+  private lastFrameTimestamp: number | null = null;
+  private stats = { longestStare: 0, reminders: 0, breaksTaken: 0 };
+
+  /**
+   * Process each frame's eye metrics; null means no face was found
+   */
+  update(eyes: EyeMetrics | null, now: number): void {
+    const gap = this.lastFrameTimestamp === null ? 0 : Math.max(now - this.lastFrameTimestamp, 0);
+    this.lastFrameTimestamp = now;
+
+    if (!eyes) {
+      // Face out of view: looking away from the screen (or gone)
+      this.eyesClosedAt = null;
+      this.stareStartedAt = null;
+      this.blinkCountingSince = null;
+      if (this.awayStartedAt === null) this.awayStartedAt = now;
+      if (now - this.awayStartedAt >= this.breakDuration && this.screenTime > 0) {
+        this.takeBreak();
+      }
+      return;
+    }
+
+    this.awayStartedAt = null;
+    this.screenTime += Math.min(gap, MAX_FRAME_GAP);
+
+    if (gap > MAX_BLINK_FRAME_GAP || this.blinkCountingSince === null) {
+      // A blink could have fallen between frames: start counting over
+      this.blinkTimes = [];
+      this.blinkCountingSince = now;
+      this.stareStartedAt = null;
+    }
+    this.trackBlinks(eyes.eyeOpenness, now);
+    this.blinkTimes = this.blinkTimes.filter(time => now - time <= this.blinkRateWindow);
+
+    const stare = this.stareStartedAt === null ? 0 : now - this.stareStartedAt;
+    this.stats.longestStare = Math.max(this.stats.longestStare, stare);
+
+    if (!this.isReminding) {
+      const event = this.checkBreakDue(stare);
+      if (event) {
+        this.isReminding = true;
+        this.stats.reminders++;
+
+        console.log(`👀 EYE BREAK DUE: ${event.message}`);
+
+        if (this.onEyeBreakDue) {
+          this.onEyeBreakDue(event);
+        }
+      }
+    }
+  }
+
+  /**
+   * Follow the eye openness through blinks. Only a short close-and-open
+   * counts as a blink; it also ends the current stare.
+   */
+  private trackBlinks(openness: number, now: number): void {
+    if (this.openEyeReference === null) this.openEyeReference = openness;
+    const reference = this.openEyeReference;
+
+    if (this.eyesClosedAt === null) {
+      if (openness < reference * this.blinkCloseRatio) {
+        this.eyesClosedAt = now;
+        return;
+      }
+      this.openEyeReference += OPEN_EYE_SMOOTHING * (openness - reference);
+      if (this.stareStartedAt === null) this.stareStartedAt = now;
+      return;
+    }
+
+    if (openness <= reference * this.blinkOpenRatio) return;
+    if (now - this.eyesClosedAt <= MAX_BLINK_DURATION) this.blinkTimes.push(now);
+    this.eyesClosedAt = null;
+    this.stareStartedAt = now;
+  }
+
+  private checkBreakDue(stare: number): EyeBreakEvent | null {
+    const screenTime = this.screenTime / 60_000;
+    const blinkRate = this.getBlinkRate();
+
+    if (this.screenTime >= this.breakInterval) {
+      return { reason: 'screen-time', message: `${Math.floor(screenTime)} minutes at the screen`, screenTime, blinkRate };
+    }
+    if (this.screenTime < this.minBreakInterval) return null;
+
+    if (blinkRate !== null && blinkRate < this.lowBlinkRate) {
+      return { reason: 'low-blink-rate', message: `Only ${blinkRate} blinks in the last minute`, screenTime, blinkRate };
+    }
+    if (stare >= this.maxStareDuration) {
+      return { reason: 'staring', message: `No blink for ${Math.round(stare / 1000)} s`, screenTime, blinkRate };
+    }
+    return null;
+  }
+
+  /**
+   * Blinks per minute over the last blinkRateWindow, or null until a full
+   * window has been watched without gaps
+   */
+  getBlinkRate(): number | null {
+    if (this.blinkCountingSince === null || this.lastFrameTimestamp === null) return null;
+    if (this.lastFrameTimestamp - this.blinkCountingSince < this.blinkRateWindow) return null;
+    return Math.round(this.blinkTimes.length * 60_000 / this.blinkRateWindow);
+  }
+
+  /**
+   * Record a break (the user looked away, or said they did) and restart the
+   * 20-minute interval
+   */
+  takeBreak(): void {
+    const wasReminding = this.isReminding;
+    this.isReminding = false;
+    this.screenTime = 0;
+    this.stats.breaksTaken++;
+
+    console.log('🌿 Eye break taken');
+
+    if (wasReminding && this.onEyeBreakTaken) {
+      this.onEyeBreakTaken();
+    }
+  }
+
+  /**
+   * Set callbacks
+   */
+  onBreakDue(callback: (event: EyeBreakEvent) => void): void {
+    this.onEyeBreakDue = callback;
+  }
+
+  onBreakTaken(callback: () => void): void {
+    this.onEyeBreakTaken = callback;
+  }
+
+  getStats(): EyeStrainStats {
+    return {
+      blinkRate: this.getBlinkRate(),
+      longestStare: Math.round(this.stats.longestStare / 1000),
+      screenTime: Math.floor(this.screenTime / 60_000),
+      reminders: this.stats.reminders,
+      breaksTaken: this.stats.breaksTaken
+    };
+  }
+
+  /**
+   * Forget everything (e.g. eye tracking was switched off)
+   */
+  reset(): void {
+    this.isReminding = false;
+    this.screenTime = 0;
+    this.openEyeReference = null;
+    this.eyesClosedAt = null;
+    this.blinkTimes = [];
+    this.blinkCountingSince = null;
+    this.stareStartedAt = null;
+    this.awayStartedAt = null;
+    this.lastFrameTimestamp = null;
+    this.stats = { longestStare: 0, reminders: 0, breaksTaken: 0 };
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * FACE METRICS
+ * Eye measurements from MediaPipe Face Mesh landmarks, for blink and
+ * eye-strain tracking. Runs in the pose worker or on the main thread, like
+ * pose-metrics.ts.
+ */
+
+import type { EyeMetrics, FaceMeshResults, MediaPipeLandmark } from "./posture-types";
+
+// Face Mesh indices around each eye: the two corners, then two upper/lower
+// lid pairs (the classic six-point eye aspect ratio)
+const EYE_OUTLINES = [
+  { corners: [33, 133], lids: [[160, 144], [158, 153]] },
+  { corners: [362, 263], lids: [[385, 380], [387, 373]] },
+];
+
+/**
+ * Eye aspect ratio of one eye: mean lid gap ÷ eye width. Uses image-plane
+ * distances — Face Mesh depth is too noisy for a gap this small.
+ */
+function eyeAspectRatio(face: MediaPipeLandmark[], eye: typeof EYE_OUTLINES[number]): number {
+  const [inner, outer] = eye.corners;
+  const width = planarDistance(face[inner], face[outer]);
+  if (width === 0) return 0;
+  const gaps = eye.lids.map(([upper, lower]) => planarDistance(face[upper], face[lower]));
+  return gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length / width;
+}
+
+/**
+ * Eye metrics for the first face in a Face Mesh result, or null without one
+ */
+export function calculateEyeMetrics(results: FaceMeshResults, timestamp: number): EyeMetrics | null {
+  const face = results.multiFaceLandmarks?.[0];
+  if (!face || face.length < 388) return null;
+
+  const ratios = EYE_OUTLINES.map(eye => eyeAspectRatio(face, eye));
+  return {
+    eyeOpenness: ratios.reduce((sum, ratio) => sum + ratio, 0) / ratios.length,
+    timestamp
+  };
+}
+
+function planarDistance(a: MediaPipeLandmark, b: MediaPipeLandmark): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
@@ -0,0 +1,140 @@
+/**
+ * FRAME SCHEDULER
+ * Drives posture sampling at a target rate instead of the webcam's native
+ * rate. Slows down when the tab is hidden or the battery is low, and speeds
+ * up while a slouch is building so the alert timing stays precise.
+ */
+
+export interface FrameSchedulerOptions {
+  /** Normal sampling rate */
+  targetFps?: number;
+  /** Rate while the tab is hidden (browsers throttle timers to ~1 Hz anyway) */
+  hiddenFps?: number;
+  /** Rate while on battery below `lowBatteryLevel` */
+  lowBatteryFps?: number;
+  /** Rate while boosted (a slouch is building) */
+  boostFps?: number;
+  /** Battery level (0–1) at or below which `lowBatteryFps` applies */
+  lowBatteryLevel?: number;
+}
+
+// navigator.getBattery() is not in lib.dom
+interface BatteryManager extends EventTarget {
+  charging: boolean;
+  level: number;
+}
+
+const DEFAULT_OPTIONS: Required<FrameSchedulerOptions> = {
+  targetFps: 10,
+  hiddenFps: 1,
+  lowBatteryFps: 4,
+  boostFps: 15,
+  lowBatteryLevel: 0.2,
+};
+
+export class FrameScheduler {
+  options: Required<FrameSchedulerOptions>;
+  isRunning = false;
+
+  private boosted = false;
+  private hidden = typeof document !== 'undefined' && document.hidden;
+  private lowBattery = false;
+  private battery: BatteryManager | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private tick: ((timestamp: number) => Promise<void>) | null = null;
+
+  constructor(options: FrameSchedulerOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Current sampling rate in frames per second
+   */
+  get currentFps(): number {
+    const { targetFps, hiddenFps, lowBatteryFps, boostFps } = this.options;
+    if (this.hidden) return hiddenFps;
+    const base = this.lowBattery ? lowBatteryFps : targetFps;
+    return this.boosted ? Math.max(base, boostFps) : base;
+  }
+
+  /**
+   * Start calling `tick` at the current rate. Each tick is awaited before the
+   * next is scheduled, so slow inference lowers the rate instead of queueing.
+   */
+  start(tick: (timestamp: number) => Promise<void>): void {
+    if (this.isRunning) this.stop();
+
+    this.tick = tick;
+    this.isRunning = true;
+    this.hidden = document.hidden;
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.watchBattery();
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.isRunning = false;
+    this.tick = null;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.battery?.removeEventListener('levelchange', this.handleBatteryChange);
+    this.battery?.removeEventListener('chargingchange', this.handleBatteryChange);
+    this.battery = null;
+  }
+
+  /**
+   * Sample faster while something time-critical (a building slouch) is happening
+   */
+  setBoost(boosted: boolean): void {
+    this.boosted = boosted;
+  }
+
+  updateOptions(options: FrameSchedulerOptions): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(this.runTick, delay);
+  }
+
+  private runTick = async (): Promise<void> => {
+    if (!this.isRunning || !this.tick) return;
+
+    const startedAt = Date.now();
+    try {
+      await this.tick(startedAt);
+    } catch (error) {
+      console.error('Frame tick failed:', error);
+    }
+
+    if (!this.isRunning) return;
+    const interval = 1000 / this.currentFps;
+    this.schedule(Math.max(0, interval - (Date.now() - startedAt)));
+  };
+
+  private handleVisibilityChange = (): void => {
+    this.hidden = document.hidden;
+  };
+
+  private handleBatteryChange = (): void => {
+    if (!this.battery) return;
+    this.lowBattery = !this.battery.charging && this.battery.level <= this.options.lowBatteryLevel;
+  };
+
+  private async watchBattery(): Promise<void> {
+    const nav = navigator as Navigator & { getBattery?: () => Promise<BatteryManager> };
+    if (!nav.getBattery) return;
+
+    try {
+      const battery = await nav.getBattery();
+      if (!this.isRunning) return;
+      this.battery = battery;
+      battery.addEventListener('levelchange', this.handleBatteryChange);
+      battery.addEventListener('chargingchange', this.handleBatteryChange);
+      this.handleBatteryChange();
+    } catch {
+      // Battery status is best-effort; keep the normal rate
+    }
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Landmark smoothing on synthetic noisy traces: seeded, MediaPipe-sized
+ * Gaussian jitter around fixed postures, sampled at the scheduler's default
+ * 10 fps.
+ */
+
+import { describe, expect, it } from "vitest";
+import { PostureCalibrator } from "./calibration";
+import { CalibratedClassifier } from "./classifiers/calibrated-classifier";
+import { OneEuroFilter } from "./landmark-filter";
+import { PosePipeline } from "./pose-pipeline";
+import { calculatePostureMetrics } from "./pose-metrics";
+import type { MediaPipeLandmark, PoseResults, PostureLandmarks } from "./posture-types";
+
+const FRAME_MS = 100;
+// Per-frame landmark jitter (normalised image units; depth is noisier)
+const NOISE_XY = 0.004;
+const NOISE_Z = 0.015;
+// How long after a real change the smoothed output may take to follow
+const LAG_BUDGET_MS = 1000;
+
+const GOOD: PostureLandmarks = {
+  nose: { x: 0.51, y: 0.33, z: -0.3, visibility: 0.99 },
+  leftEar: { x: 0.56, y: 0.3, z: -0.15, visibility: 0.99 },
+  rightEar: { x: 0.44, y: 0.3, z: -0.15, visibility: 0.99 },
+  leftShoulder: { x: 0.62, y: 0.5, z: -0.1, visibility: 0.99 },
+  rightShoulder: { x: 0.38, y: 0.5, z: -0.1, visibility: 0.99 },
+  leftHip: { x: 0.6, y: 0.85, z: 0, visibility: 0.99 },
+  rightHip: { x: 0.4, y: 0.85, z: 0, visibility: 0.99 }
+};
+
+// Head dropped towards the shoulders, shoulders rolled forward
+const SLOUCHED: PostureLandmarks = {
+  nose: { x: 0.51, y: 0.45, z: -0.45, visibility: 0.99 },
+  leftEar: { x: 0.56, y: 0.4, z: -0.3, visibility: 0.99 },
+  rightEar: { x: 0.44, y: 0.4, z: -0.3, visibility: 0.99 },
+  leftShoulder: { x: 0.61, y: 0.53, z: -0.3, visibility: 0.99 },
+  rightShoulder: { x: 0.39, y: 0.53, z: -0.3, visibility: 0.99 },
+  leftHip: { x: 0.6, y: 0.85, z: 0, visibility: 0.99 },
+  rightHip: { x: 0.4, y: 0.85, z: 0, visibility: 0.99 }
+};
+
+// MediaPipe Pose indices of the landmarks extractLandmarks() reads
+const LANDMARK_INDEX: Record<keyof PostureLandmarks, number> = {
+  nose: 0,
+  leftEar: 7,
+  rightEar: 8,
+  leftShoulder: 11,
+  rightShoulder: 12,
+  leftHip: 23,
+  rightHip: 24
+};
+
+/**
+ * Seeded standard-normal generator (mulberry32 + Box–Muller), so every run
+ * sees the same trace
+ */
+function gaussian(seed: number): () => number {
+  let state = seed;
+  const uniform = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return () => Math.sqrt(-2 * Math.log(1 - uniform())) * Math.cos(2 * Math.PI * uniform());
+}
+
+/**
+ * A posture `t` of the way from GOOD to SLOUCHED
+ */
+function posture(t: number): PostureLandmarks {
+  const landmarks = {} as PostureLandmarks;
+  for (const key of Object.keys(GOOD) as (keyof PostureLandmarks)[]) {
+    const from = GOOD[key];
+    const to = SLOUCHED[key];
+    landmarks[key] = {
+      x: from.x + (to.x - from.x) * t,
+      y: from.y + (to.y - from.y) * t,
+      z: from.z + (to.z - from.z) * t,
+      visibility: 0.99
+    };
+  }
+  return landmarks;
+}
+
+/**
+ * MediaPipe results for a posture with jitter on every coordinate
+ */
+function noisyResults(landmarks: PostureLandmarks, noise: () => number): PoseResults {
+  const poseLandmarks: MediaPipeLandmark[] = Array.from({ length: 33 }, () => ({ x: 0, y: 0, z: 0, visibility: 0 }));
+  for (const key of Object.keys(landmarks) as (keyof PostureLandmarks)[]) {
+    const landmark = landmarks[key];
+    poseLandmarks[LANDMARK_INDEX[key]] = {
+      x: landmark.x + noise() * NOISE_XY,
+      y: landmark.y + noise() * NOISE_XY,
+      z: landmark.z + noise() * NOISE_Z,
+      visibility: landmark.visibility
+    };
+  }
+  return { poseLandmarks };
+}
+
+/**
+ * Classifier calibrated on the clean postures: spreads sit at the noise
+ * floor, the same for the raw and the smoothed run
+ */
+function calibratedClassifier(): CalibratedClassifier {
+  const calibrator = new PostureCalibrator();
+  const good = calculatePostureMetrics(GOOD, 0)!;
+  const slouched = calculatePostureMetrics(SLOUCHED, 0)!;
+  calibrator.calibrationData = {
+    goodPosture: calibrator.calculateAverageMetrics([good]),
+    slouchedPosture: calibrator.calculateAverageMetrics([slouched]),
+    goodDistribution: calibrator.calculateDistribution([good]),
+    calibratedAt: 0
+  };
+  return new CalibratedClassifier(calibrator);
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+}
+
+function countFlips(verdicts: boolean[]): number {
+  return verdicts.filter((verdict, i) => i > 0 && verdict !== verdicts[i - 1]).length;
+}
+
+describe('OneEuroFilter', () => {
+  it('more than halves the jitter of a still landmark', () => {
+    const noise = gaussian(1);
+    const filter = new OneEuroFilter();
+    const raw: number[] = [];
+    const smoothed: number[] = [];
+    for (let i = 0; i < 600; i++) {
+      const value = 0.5 + noise() * NOISE_XY;
+      raw.push(value);
+      smoothed.push(filter.filter(value, i * FRAME_MS));
+    }
+
+    // Skip the first second while the filter settles
+    expect(standardDeviation(smoothed.slice(10))).toBeLessThan(standardDeviation(raw.slice(10)) / 2);
+  });
+
+  it('follows a real move within the lag budget', () => {
+    const noise = gaussian(2);
+    const filter = new OneEuroFilter();
+    const stepAt = 30 * FRAME_MS;
+    const step = 0.1; // the head dropping by a tenth of the frame
+    let reachedAt: number | null = null;
+    for (let i = 0; i < 60; i++) {
+      const timestamp = i * FRAME_MS;
+      const value = filter.filter((timestamp >= stepAt ? 0.3 + step : 0.3) + noise() * NOISE_XY, timestamp);
+      if (reachedAt === null && value >= 0.3 + step * 0.9) reachedAt = timestamp;
+    }
+
+    expect(reachedAt).not.toBeNull();
+    expect(reachedAt! - stepAt).toBeLessThanOrEqual(LAG_BUDGET_MS);
+  });
+
+  it('starts over after a gap longer than maxGap', () => {
+    const filter = new OneEuroFilter({ minCutoff: 0.5, beta: 1, derivativeCutoff: 1, maxGap: 2000 });
+    filter.filter(0.3, 0);
+    filter.filter(0.3, 100);
+
+    expect(filter.filter(0.6, 2200)).toBe(0.6);
+  });
+});
+
+describe('PosePipeline smoothing', () => {
+  // 60 s sitting almost upright (close enough to the tolerance that raw
+  // jitter crosses it), then a moderate slouch held for 30 s
+  const STEADY_FRAMES = 600;
+  const TOTAL_FRAMES = 900;
+  const stepAt = STEADY_FRAMES * FRAME_MS;
+
+  const runTrace = (smoothing: boolean): boolean[] => {
+    const noise = gaussian(42);
+    const classifier = calibratedClassifier();
+    const pipeline = new PosePipeline();
+    if (!smoothing) pipeline.configureSmoothing(false);
+
+    const verdicts: boolean[] = [];
+    for (let i = 0; i < TOTAL_FRAMES; i++) {
+      const landmarks = posture(i < STEADY_FRAMES ? 0.5 : 0.8);
+      const metrics = pipeline.process(noisyResults(landmarks, noise), i * FRAME_MS);
+      verdicts.push(classifier.analyze(metrics!).isSlouching);
+    }
+    return verdicts;
+  };
+
+  it('the clean trace is good posture, then a slouch', () => {
+    const classifier = calibratedClassifier();
+    expect(classifier.analyze(calculatePostureMetrics(posture(0.5), 0)!).isSlouching).toBe(false);
+    expect(classifier.analyze(calculatePostureMetrics(posture(0.8), 0)!).isSlouching).toBe(true);
+  });
+
+  it('cuts classifier flips while the posture holds still', () => {
+    const raw = countFlips(runTrace(false).slice(0, STEADY_FRAMES));
+    const smoothed = countFlips(runTrace(true).slice(0, STEADY_FRAMES));
+
+    // The raw trace really is noisy enough to flip the verdict
+    expect(raw).toBeGreaterThanOrEqual(20);
+    expect(smoothed).toBeLessThanOrEqual(raw / 10);
+  });
+
+  it('still reports a real slouch within the lag budget, and holds it', () => {
+    const verdicts = runTrace(true);
+    const firstSlouched = verdicts.indexOf(true, STEADY_FRAMES);
+
+    expect(firstSlouched).toBeGreaterThanOrEqual(STEADY_FRAMES);
+    expect(firstSlouched * FRAME_MS - stepAt).toBeLessThanOrEqual(LAG_BUDGET_MS);
+    expect(verdicts.slice(firstSlouched).every(Boolean)).toBe(true);
+  });
+
+  it('drops smoothing history when the pose is lost', () => {
+    const noise = gaussian(7);
+    const pipeline = new PosePipeline();
+    for (let i = 0; i < 50; i++) pipeline.process(noisyResults(GOOD, noise), i * FRAME_MS);
+
+    expect(pipeline.process({ poseLandmarks: [] }, 5000)).toBeNull();
+    // The next frame passes through unsmoothed, with no pull from the old posture
+    const clean = calculatePostureMetrics(SLOUCHED, 5100)!;
+    const metrics = pipeline.process(noisyResults(SLOUCHED, () => 0), 5100)!;
+    expect(metrics.headShoulderRatio).toBeCloseTo(clean.headShoulderRatio, 10);
+  });
+});
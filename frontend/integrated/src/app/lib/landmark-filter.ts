@@ -0,0 +1,120 @@
+/**
+ * LANDMARK FILTER
+ * One-Euro smoothing of landmark coordinates between extractLandmarks and
+ * calculatePostureMetrics, so a single jittery frame can't flip the monitor
+ * between slouched and good posture.
+ *
+ * The One-Euro filter (Casiez et al., CHI 2012) is a low-pass filter whose
+ * cutoff rises with speed: while a landmark is still, a low cutoff removes
+ * jitter; when it moves, the cutoff opens up and lag stays small.
+ */
+
+import type { LandmarkSmoothingOptions, MediaPipeLandmark, PostureLandmarks } from "./posture-types";
+
+const DEFAULT_OPTIONS: Required<LandmarkSmoothingOptions> = {
+  minCutoff: 0.5,
+  beta: 1,
+  derivativeCutoff: 1.0,
+  maxGap: 2000,
+};
+
+/**
+ * Smoothing factor of a first-order low-pass filter
+ * @param cutoff cutoff frequency in Hz
+ * @param dt seconds since the previous sample
+ */
+function smoothingFactor(cutoff: number, dt: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+/**
+ * One-Euro filter for a single value
+ */
+export class OneEuroFilter {
+  private value: number | null = null;
+  private derivative = 0;
+  private lastTimestamp = 0;
+
+  constructor(private options: Required<LandmarkSmoothingOptions> = DEFAULT_OPTIONS) {}
+
+  reset(): void {
+    this.value = null;
+    this.derivative = 0;
+  }
+
+  /**
+   * Filter one sample; `timestamp` is in milliseconds
+   */
+  filter(value: number, timestamp: number): number {
+    const dt = (timestamp - this.lastTimestamp) / 1000;
+    if (this.value === null || dt * 1000 > this.options.maxGap) {
+      this.value = value;
+      this.derivative = 0;
+      this.lastTimestamp = timestamp;
+      return value;
+    }
+    // Same or out-of-order frame: nothing new to learn from it
+    if (dt <= 0) return this.value;
+
+    const { minCutoff, beta, derivativeCutoff } = this.options;
+    const rawDerivative = (value - this.value) / dt;
+    this.derivative += smoothingFactor(derivativeCutoff, dt) * (rawDerivative - this.derivative);
+
+    const cutoff = minCutoff + beta * Math.abs(this.derivative);
+    this.value += smoothingFactor(cutoff, dt) * (value - this.value);
+    this.lastTimestamp = timestamp;
+    return this.value;
+  }
+}
+
+type Axis = 'x' | 'y' | 'z';
+const AXES: Axis[] = ['x', 'y', 'z'];
+
+/**
+ * One-Euro filter per coordinate of every posture landmark. Visibility is
+ * passed through unfiltered so occlusion gating reacts to the current frame.
+ */
+export class LandmarkSmoother {
+  options: Required<LandmarkSmoothingOptions>;
+
+  private filters = new Map<string, OneEuroFilter>();
+
+  constructor(options: LandmarkSmoothingOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  updateOptions(options: LandmarkSmoothingOptions): void {
+    this.options = { ...this.options, ...options };
+    this.reset();
+  }
+
+  /**
+   * Forget history (e.g. the pose was lost); the next frame passes through as-is
+   */
+  reset(): void {
+    this.filters.clear();
+  }
+
+  filter(landmarks: PostureLandmarks, timestamp: number): PostureLandmarks {
+    const smoothed = {} as PostureLandmarks;
+    for (const key of Object.keys(landmarks) as (keyof PostureLandmarks)[]) {
+      const landmark = landmarks[key];
+      const point: MediaPipeLandmark = { ...landmark };
+      for (const axis of AXES) {
+        point[axis] = this.getFilter(`${key}.${axis}`).filter(landmark[axis], timestamp);
+      }
+      smoothed[key] = point;
+    }
+    return smoothed;
+  }
+
+  private getFilter(id: string): OneEuroFilter {
+    let filter = this.filters.get(id);
+    if (!filter) {
+      filter = new OneEuroFilter(this.options);
+      this.filters.set(id, filter);
+    }
+    return filter;
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * MEDIAPIPE LOADER
+ * Loads the MediaPipe Pose runtime (which only ships as global scripts) once
+ * per page and reports failures instead of swallowing them. Face Mesh, used
+ * only for eye-break reminders, loads separately on demand.
+ *
+ * Assets are self-hosted: `vite.config.ts` serves and bundles the npm packages
+ * under `/mediapipe/<package>/`. Set `VITE_MEDIAPIPE_BASE_URL` to load them
+ * from somewhere else (e.g. an internal mirror or CDN).
+ */
+
+type MediaPipePackage = "pose" | "face_mesh";
+
+const MEDIAPIPE_BASE_URL = (
+  import.meta.env.VITE_MEDIAPIPE_BASE_URL || `${import.meta.env.BASE_URL}mediapipe/`
+).replace(/\/?$/, "/");
+
+const MEDIAPIPE_SCRIPTS: [MediaPipePackage, string][] = [
+  ["pose", "pose.js"],
+];
+
+let loading: Promise<void> | null = null;
+let faceMeshLoading: Promise<void> | null = null;
+
+/**
+ * URL of a file inside one of the self-hosted MediaPipe packages.
+ */
+export function mediapipeAssetUrl(pkg: MediaPipePackage, file: string): string {
+  return `${MEDIAPIPE_BASE_URL}${pkg}/${file}`;
+}
+
+function loadScript(src: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (document.querySelector(`script[src="${src}"]`)) { resolve(); return; }
+    const s = document.createElement("script");
+    s.src = src; s.crossOrigin = "anonymous";
+    s.onload = () => resolve();
+    s.onerror = () => {
+      s.remove();
+      reject(new Error(`Failed to load ${src}`));
+    };
+    document.head.appendChild(s);
+  });
+}
+
+/**
+ * Resolve once `Pose` is available on `window`.
+ * Rejects if any script fails; a later call retries from scratch.
+ */
+export function loadMediaPipe(): Promise<void> {
+  if (!loading) {
+    loading = (async () => {
+      for (const [pkg, file] of MEDIAPIPE_SCRIPTS) await loadScript(mediapipeAssetUrl(pkg, file));
+      if (typeof Pose === "undefined") {
+        throw new Error("MediaPipe loaded but the Pose global is missing");
+      }
+    })().catch((error) => {
+      loading = null;
+      throw error;
+    });
+  }
+  return loading;
+}
+
+/**
+ * Resolve once `FaceMesh` is available on `window`.
+ * Rejects if the script fails; a later call retries from scratch.
+ */
+export function loadFaceMesh(): Promise<void> {
+  if (!faceMeshLoading) {
+    faceMeshLoading = (async () => {
+      await loadScript(mediapipeAssetUrl("face_mesh", "face_mesh.js"));
+      if (typeof FaceMesh === "undefined") {
+        throw new Error("MediaPipe loaded but the FaceMesh global is missing");
+      }
+    })().catch((error) => {
+      faceMeshLoading = null;
+      throw error;
+    });
+  }
+  return faceMeshLoading;
+}
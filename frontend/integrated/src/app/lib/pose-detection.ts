@@ -0,0 +1,362 @@
+/**
+ * POSE DETECTION MODULE
+ * Handles MediaPipe Pose initialization and frame capture. Frames are sampled
+ * by a FrameScheduler; inference and metric calculation run in a Web Worker
+ * when the browser supports it, and fall back to the main thread otherwise.
+ * An optional Face Mesh pass on the same frames measures the eyes.
+ */
+
+import { calculateEyeMetrics } from "./face-metrics";
+import { FrameScheduler, type FrameSchedulerOptions } from "./frame-scheduler";
+import { loadFaceMesh, mediapipeAssetUrl } from "./mediapipe-loader";
+import { PosePipeline } from "./pose-pipeline";
+import {
+  calculateAngle,
+  calculateDistance,
+  calculatePostureMetrics,
+  checkLightingQuality,
+  extractLandmarks,
+  getMidpoint,
+} from "./pose-metrics";
+import type {
+  EyeMetrics,
+  LandmarkSmoothingOptions,
+  PostureMetrics,
+  PoseWorkerRequest,
+  PoseWorkerResponse,
+} from "./posture-types";
+
+const POSE_OPTIONS = {
+  modelComplexity: 1, // 0=lite, 1=full, 2=heavy (use 1 for balance)
+  smoothLandmarks: true,
+  enableSegmentation: false,
+  smoothSegmentation: false,
+  minDetectionConfidence: 0.5,
+  minTrackingConfidence: 0.5
+};
+
+const FACE_MESH_OPTIONS = {
+  maxNumFaces: 1,
+  refineLandmarks: false, // iris points aren't needed for the eye aspect ratio
+  minDetectionConfidence: 0.5,
+  minTrackingConfidence: 0.5
+};
+
+// The worker downloads and compiles the WASM runtime + model before it is ready
+const WORKER_INIT_TIMEOUT = 15_000;
+
+export interface PoseDetectorOptions {
+  /** Run inference in a Web Worker when supported (default true) */
+  useWorker?: boolean;
+  /** Sampling rates, see FrameScheduler */
+  scheduler?: FrameSchedulerOptions;
+  /** Landmark smoothing, see LandmarkSmoother (false to turn it off) */
+  smoothing?: LandmarkSmoothingOptions | false;
+  /** Run the Face Mesh pass for eye metrics (default false), see setEyeTracking */
+  eyeTracking?: boolean;
+}
+
+export class PoseDetector {
+  pose: Pose | null = null;
+  faceMesh: FaceMesh | null = null;
+  worker: Worker | null = null;
+  scheduler = new FrameScheduler();
+  stream: MediaStream | null = null;
+  isInitialized = false;
+  onFrameCallback: ((metrics: PostureMetrics | null) => void) | null = null;
+  onEyeFrameCallback: ((eyes: EyeMetrics | null, timestamp: number) => void) | null = null;
+  /** Whether the Face Mesh pass was requested (it may still be loading) */
+  eyeTracking = false;
+  videoElement: HTMLVideoElement | null = null;
+  canvasElement: HTMLCanvasElement | null = null;
+
+  private pipeline = new PosePipeline();
+  private smoothing: LandmarkSmoothingOptions | false = {};
+  private pendingFrame: ((response: PoseWorkerResponse) => void) | null = null;
+  private mainThreadTimestamp = 0;
+
+  /**
+   * Initialize MediaPipe Pose
+   */
+  async initialize(
+    videoElementId: string,
+    canvasElementId: string,
+    options: PoseDetectorOptions = {}
+  ): Promise<boolean> {
+    try {
+      this.videoElement = document.getElementById(videoElementId) as HTMLVideoElement | null;
+      this.canvasElement = document.getElementById(canvasElementId) as HTMLCanvasElement | null;
+
+      if (!this.videoElement || !this.canvasElement) {
+        throw new Error('Video or canvas element not found');
+      }
+
+      if (options.scheduler) {
+        this.scheduler.updateOptions(options.scheduler);
+      }
+      if (options.smoothing !== undefined) {
+        this.smoothing = options.smoothing;
+        this.pipeline.configureSmoothing(options.smoothing);
+      }
+
+      if (options.useWorker !== false && PoseDetector.supportsWorker()) {
+        this.worker = await this.createWorker();
+      }
+      if (!this.worker) {
+        this.initializeMainThreadPose();
+      }
+
+      this.isInitialized = true;
+      if (options.eyeTracking) {
+        await this.setEyeTracking(true);
+      }
+      console.log(`✅ PoseDetector initialized successfully (${this.worker ? 'worker' : 'main thread'})`);
+
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to initialize PoseDetector:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Start pose detection. `onFrame` receives each frame's metrics, or null
+   * when no pose was found in that frame.
+   */
+  async start(onFrame: (metrics: PostureMetrics | null) => void): Promise<boolean> {
+    if (!this.isInitialized || !this.videoElement) {
+      console.error('PoseDetector not initialized. Call initialize() first.');
+      return false;
+    }
+
+    this.onFrameCallback = onFrame;
+    const video = this.videoElement;
+    await this.startCamera(video);
+
+    // Frame capture always stays on the main thread; the scheduler sets the pace
+    this.scheduler.start(async (timestamp) => {
+      if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+      if (this.worker) {
+        await this.sendToWorker(video, timestamp);
+      } else if (this.pose) {
+        this.mainThreadTimestamp = timestamp;
+        await this.pose.send({ image: video });
+        if (this.faceMesh) await this.faceMesh.send({ image: video });
+      }
+    });
+    console.log('📹 Camera started');
+    return true;
+  }
+
+  /**
+   * Stop pose detection and release the models. Call initialize() again
+   * before the next start().
+   */
+  async stop(): Promise<void> {
+    this.scheduler.stop();
+    if (this.stream) {
+      this.stream.getTracks().forEach(track => track.stop());
+      this.stream = null;
+      console.log('🛑 Camera stopped');
+    }
+    if (this.worker) {
+      this.postToWorker({ type: 'close' });
+      this.worker = null;
+    }
+    // Settle a frame still waiting on the worker so its tick finishes
+    const resolveFrame = this.pendingFrame;
+    this.pendingFrame = null;
+    resolveFrame?.({ type: 'error', message: 'PoseDetector stopped' });
+
+    const { pose, faceMesh } = this;
+    this.pose = null;
+    this.faceMesh = null;
+    this.isInitialized = false;
+    try {
+      await Promise.all([pose?.close(), faceMesh?.close()]);
+    } catch (error) {
+      console.warn('⚠️ MediaPipe did not close cleanly:', error);
+    }
+  }
+
+  /**
+   * Turn the Face Mesh pass on or off. It roughly doubles inference cost, so
+   * it only runs while something listens for eye metrics.
+   */
+  async setEyeTracking(enabled: boolean): Promise<void> {
+    this.eyeTracking = enabled;
+    if (this.worker) {
+      this.postToWorker({ type: 'face-mesh', options: enabled ? FACE_MESH_OPTIONS : null });
+    } else if (this.isInitialized) {
+      await this.configureMainThreadFaceMesh();
+    }
+  }
+
+  /**
+   * Receive each frame's eye metrics (null when no face was found) while
+   * eye tracking is on
+   */
+  onEyeFrame(callback: (eyes: EyeMetrics | null, timestamp: number) => void): void {
+    this.onEyeFrameCallback = callback;
+  }
+
+  /**
+   * Attach a camera stream to the video element. Re-uses a live stream that is
+   * already attached (e.g. by react-webcam) and only owns streams it opened.
+   */
+  private async startCamera(video: HTMLVideoElement): Promise<void> {
+    const existing = video.srcObject;
+    const hasLiveStream = existing instanceof MediaStream &&
+      existing.getVideoTracks().some(track => track.readyState === 'live');
+
+    if (!hasLiveStream) {
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        video: { width: 640, height: 480, facingMode: 'user' },
+        audio: false
+      });
+      video.srcObject = this.stream;
+    }
+
+    video.muted = true;
+    video.playsInline = true;
+    await video.play();
+  }
+
+  /**
+   * Worker inference needs OffscreenCanvas (WebGL) and ImageBitmap transfer
+   */
+  static supportsWorker(): boolean {
+    return typeof Worker !== 'undefined' &&
+           typeof OffscreenCanvas !== 'undefined' &&
+           typeof createImageBitmap !== 'undefined';
+  }
+
+  /**
+   * In-thread path: MediaPipe runs on the main thread and results go through
+   * the same pipeline the worker uses.
+   */
+  private initializeMainThreadPose(): void {
+    this.pose = new Pose({
+      locateFile: (file) => mediapipeAssetUrl('pose', file)
+    });
+    this.pose.setOptions(POSE_OPTIONS);
+    this.pose.onResults((results) => {
+      this.onFrameCallback?.(this.pipeline.process(results, this.mainThreadTimestamp));
+    });
+  }
+
+  private async configureMainThreadFaceMesh(): Promise<void> {
+    if (!this.eyeTracking) {
+      this.faceMesh?.close();
+      this.faceMesh = null;
+      return;
+    }
+    if (this.faceMesh) return;
+    try {
+      await loadFaceMesh();
+    } catch (error) {
+      console.warn('⚠️ Face Mesh failed to load, eye tracking is off:', error);
+      return;
+    }
+    // Turned off (or already set up) while the script was loading
+    if (!this.eyeTracking || this.faceMesh || this.worker) return;
+
+    const faceMesh = new FaceMesh({
+      locateFile: (file) => mediapipeAssetUrl('face_mesh', file)
+    });
+    faceMesh.setOptions(FACE_MESH_OPTIONS);
+    faceMesh.onResults((results) => {
+      this.onEyeFrameCallback?.(calculateEyeMetrics(results, this.mainThreadTimestamp), this.mainThreadTimestamp);
+    });
+    this.faceMesh = faceMesh;
+  }
+
+  /**
+   * Spawn the pose worker and wait until its model is loaded.
+   * Resolves null if the worker cannot start, so callers fall back.
+   */
+  private createWorker(): Promise<Worker | null> {
+    return new Promise((resolve) => {
+      let worker: Worker;
+      try {
+        worker = new Worker(new URL('./pose.worker.ts', import.meta.url), { type: 'module' });
+      } catch (error) {
+        console.warn('⚠️ Pose worker unavailable, using main thread:', error);
+        resolve(null);
+        return;
+      }
+
+      const fail = (reason: unknown) => {
+        clearTimeout(timeout);
+        console.warn('⚠️ Pose worker failed to start, using main thread:', reason);
+        worker.terminate();
+        resolve(null);
+      };
+      const timeout = setTimeout(() => fail('timed out'), WORKER_INIT_TIMEOUT);
+
+      worker.onerror = (event) => fail(event.message);
+      worker.onmessage = (event: MessageEvent<PoseWorkerResponse>) => {
+        const message = event.data;
+        if (message.type === 'error') { fail(message.message); return; }
+        if (message.type !== 'ready') return;
+
+        clearTimeout(timeout);
+        worker.onmessage = (e: MessageEvent<PoseWorkerResponse>) => this.handleWorkerMessage(e.data);
+        worker.onerror = (e) => this.handleWorkerMessage({ type: 'error', message: e.message });
+        resolve(worker);
+      };
+
+      this.postToWorker({ type: 'init', options: POSE_OPTIONS, smoothing: this.smoothing }, [], worker);
+    });
+  }
+
+  private postToWorker(message: PoseWorkerRequest, transfer: Transferable[] = [], worker = this.worker): void {
+    worker?.postMessage(message, transfer);
+  }
+
+  /**
+   * Capture the current video frame and hand it to the worker. Resolves when
+   * the worker answers, so the scheduler never queues more than one frame.
+   */
+  private async sendToWorker(video: HTMLVideoElement, timestamp: number): Promise<void> {
+    if (!this.worker || this.pendingFrame) return;
+
+    const image = await createImageBitmap(video);
+    const response = new Promise<PoseWorkerResponse>((resolve) => {
+      this.pendingFrame = resolve;
+    });
+    this.postToWorker({ type: 'frame', image, timestamp }, [image]);
+    await response;
+  }
+
+  private handleWorkerMessage(message: PoseWorkerResponse): void {
+    if (message.type === 'face-mesh') {
+      if (message.error) console.warn('⚠️ Face Mesh failed to start, eye tracking is off:', message.error);
+      else console.log(`👁️ Eye tracking ${message.enabled ? 'on' : 'off'}`);
+      return;
+    }
+
+    const resolveFrame = this.pendingFrame;
+    this.pendingFrame = null;
+    resolveFrame?.(message);
+
+    if (message.type === 'result') {
+      this.onFrameCallback?.(message.metrics);
+      if (message.eyes !== undefined) this.onEyeFrameCallback?.(message.eyes, message.timestamp);
+    } else if (message.type === 'error') {
+      console.error('❌ Pose worker error, falling back to main thread:', message.message);
+      this.worker?.terminate();
+      this.worker = null;
+      this.initializeMainThreadPose();
+      this.configureMainThreadFaceMesh();
+    }
+  }
+
+  // Landmark geometry lives in pose-metrics.ts so the worker can share it
+  static extractLandmarks = extractLandmarks;
+  static calculateDistance = calculateDistance;
+  static calculateAngle = calculateAngle;
+  static getMidpoint = getMidpoint;
+  static calculatePostureMetrics = calculatePostureMetrics;
+  static checkLightingQuality = checkLightingQuality;
+}
@@ -0,0 +1,292 @@
+/**
+ * POSE METRICS
+ * Pure landmark geometry shared by the main thread and the pose worker.
+ * No DOM or MediaPipe globals in here.
+ */
+
+import type {
+  BodyPart,
+  CalibrationMetrics,
+  HandFaceLandmarks,
+  LightingQuality,
+  MediaPipeLandmark,
+  PoseResults,
+  PostureLandmarks,
+  PostureMetrics,
+} from "./posture-types";
+
+type Point3D = Pick<MediaPipeLandmark, "x" | "y" | "z">;
+
+// Below this MediaPipe visibility score a landmark is a guess (e.g. hips
+// hidden under the desk) and the metrics built on it are not trusted
+export const VISIBILITY_THRESHOLD = 0.5;
+
+/**
+ * Landmarks each metric is computed from
+ */
+export const METRIC_LANDMARKS: Record<keyof CalibrationMetrics, (keyof PostureLandmarks)[]> = {
+  headShoulderRatio: ['leftEar', 'rightEar', 'leftShoulder', 'rightShoulder'],
+  shoulderAsymmetry: ['leftShoulder', 'rightShoulder'],
+  torsoAngle: ['leftShoulder', 'rightShoulder', 'leftHip', 'rightHip'],
+  neckAngle: ['nose', 'leftEar', 'rightEar', 'leftShoulder', 'rightShoulder'],
+  forwardLean: ['leftShoulder', 'rightShoulder', 'leftHip', 'rightHip'],
+  headRoll: ['leftEar', 'rightEar'],
+  headYaw: ['nose', 'leftEar', 'rightEar', 'leftShoulder', 'rightShoulder']
+};
+
+const LANDMARK_BODY_PARTS: Record<keyof PostureLandmarks, BodyPart> = {
+  nose: 'head',
+  leftEar: 'head',
+  rightEar: 'head',
+  leftShoulder: 'shoulders',
+  rightShoulder: 'shoulders',
+  leftHip: 'hips',
+  rightHip: 'hips'
+};
+
+/**
+ * Extract key landmarks from MediaPipe results
+ */
+export function extractLandmarks(results: PoseResults): PostureLandmarks | null {
+  if (!results.poseLandmarks || results.poseLandmarks.length === 0) {
+    return null;
+  }
+
+  const landmarks = results.poseLandmarks;
+
+  // Key landmarks we care about (MediaPipe Pose landmark indices)
+  return {
+    nose: landmarks[0],
+    leftShoulder: landmarks[11],
+    rightShoulder: landmarks[12],
+    leftHip: landmarks[23],
+    rightHip: landmarks[24],
+    leftEar: landmarks[7],
+    rightEar: landmarks[8]
+  };
+}
+
+/**
+ * Extract the hand and mouth landmarks used for hand-on-face detection
+ */
+export function extractHandFaceLandmarks(results: PoseResults): HandFaceLandmarks | null {
+  if (!results.poseLandmarks || results.poseLandmarks.length === 0) {
+    return null;
+  }
+
+  const landmarks = results.poseLandmarks;
+
+  return {
+    mouthLeft: landmarks[9],
+    mouthRight: landmarks[10],
+    leftWrist: landmarks[15],
+    rightWrist: landmarks[16],
+    leftPinky: landmarks[17],
+    rightPinky: landmarks[18],
+    leftIndex: landmarks[19],
+    rightIndex: landmarks[20],
+    leftThumb: landmarks[21],
+    rightThumb: landmarks[22]
+  };
+}
+
+/**
+ * Whether MediaPipe is confident the landmark is in view
+ */
+export function isLandmarkVisible(landmark: MediaPipeLandmark): boolean {
+  return (landmark.visibility ?? 1) >= VISIBILITY_THRESHOLD;
+}
+
+/**
+ * Whether a metric was computed from visible landmarks only
+ */
+export function isMetricAvailable(metrics: Pick<PostureMetrics, 'unavailable'>, key: keyof CalibrationMetrics): boolean {
+  return !metrics.unavailable?.includes(key);
+}
+
+/**
+ * Work out which metrics and body parts a frame cannot be trusted for
+ */
+export function assessVisibility(
+  landmarks: PostureLandmarks
+): Pick<PostureMetrics, 'unavailable' | 'hiddenParts'> {
+  const hidden = (Object.keys(landmarks) as (keyof PostureLandmarks)[])
+    .filter(key => !isLandmarkVisible(landmarks[key]));
+
+  const unavailable = (Object.keys(METRIC_LANDMARKS) as (keyof CalibrationMetrics)[])
+    .filter(key => METRIC_LANDMARKS[key].some(landmark => hidden.includes(landmark)));
+  const hiddenParts = [...new Set(hidden.map(landmark => LANDMARK_BODY_PARTS[landmark]))];
+
+  return { unavailable, hiddenParts };
+}
+
+/**
+ * Calculate distance between two landmarks
+ */
+export function calculateDistance(point1: Point3D, point2: Point3D): number {
+  const dx = point1.x - point2.x;
+  const dy = point1.y - point2.y;
+  const dz = point1.z - point2.z;
+  return Math.sqrt(dx * dx + dy * dy + dz * dz);
+}
+
+/**
+ * Calculate angle between three points (in degrees)
+ */
+export function calculateAngle(point1: Point3D, point2: Point3D, point3: Point3D): number {
+  const radians = Math.atan2(point3.y - point2.y, point3.x - point2.x) -
+                  Math.atan2(point1.y - point2.y, point1.x - point2.x);
+  let angle = Math.abs(radians * 180.0 / Math.PI);
+
+  if (angle > 180.0) {
+    angle = 360 - angle;
+  }
+
+  return angle;
+}
+
+/**
+ * Get midpoint between two landmarks
+ */
+export function getMidpoint(point1: Point3D, point2: Point3D): Point3D {
+  return {
+    x: (point1.x + point2.x) / 2,
+    y: (point1.y + point2.y) / 2,
+    z: (point1.z + point2.z) / 2
+  };
+}
+
+/**
+ * Calculate posture metrics (ratios that are camera-angle independent)
+ */
+export function calculatePostureMetrics(
+  landmarks: PostureLandmarks | null,
+  timestamp: number = Date.now()
+): PostureMetrics | null {
+  if (!landmarks) return null;
+
+  try {
+    const shoulderMidpoint = getMidpoint(landmarks.leftShoulder, landmarks.rightShoulder);
+    const hipMidpoint = getMidpoint(landmarks.leftHip, landmarks.rightHip);
+    const earMidpoint = getMidpoint(landmarks.leftEar, landmarks.rightEar);
+
+    // 1. Shoulder width (reference for ratios)
+    const shoulderWidth = calculateDistance(landmarks.leftShoulder, landmarks.rightShoulder);
+
+    // 2. Head-to-shoulder ratio (forward head posture detection)
+    // When slouching, head drifts forward relative to shoulders
+    const headToShoulderDistance = calculateDistance(earMidpoint, shoulderMidpoint);
+    const headShoulderRatio = headToShoulderDistance / shoulderWidth;
+
+    // 3. Shoulder asymmetry (leaning to one side)
+    const shoulderHeightDiff = Math.abs(landmarks.leftShoulder.y - landmarks.rightShoulder.y);
+    const shoulderAsymmetry = shoulderHeightDiff / shoulderWidth;
+
+    // 4. Torso angle (spine alignment)
+    const torsoAngle = calculateAngle(shoulderMidpoint, hipMidpoint, {
+      x: hipMidpoint.x,
+      y: hipMidpoint.y + 0.1,
+      z: hipMidpoint.z
+    });
+
+    // 5. Neck angle (head tilt)
+    const neckAngle = calculateAngle(shoulderMidpoint, earMidpoint, landmarks.nose);
+
+    // 6. Forward lean (z-axis depth)
+    const forwardLean = Math.abs(shoulderMidpoint.z - hipMidpoint.z);
+
+    // 7. Head roll (tilting the head sideways)
+    // |dx| keeps a level head at 0° whether or not the image is mirrored
+    const headRoll = Math.atan2(
+      landmarks.leftEar.y - landmarks.rightEar.y,
+      Math.abs(landmarks.leftEar.x - landmarks.rightEar.x)
+    ) * 180 / Math.PI;
+
+    // 8. Head yaw (turning towards a second monitor)
+    // The nose sits between the ears when facing the camera
+    const headYaw = (landmarks.nose.x - earMidpoint.x) / shoulderWidth;
+
+    return {
+      headShoulderRatio,      // Primary slouch indicator
+      shoulderAsymmetry,      // Side lean indicator
+      torsoAngle,             // Spine alignment
+      neckAngle,              // Head position
+      forwardLean,            // Forward/backward lean
+      headRoll,               // Sideways head tilt
+      headYaw,                // Head turned away
+      shoulderWidth,          // Reference measurement
+      timestamp,
+      ...assessVisibility(landmarks)
+    };
+  } catch (error) {
+    console.error('Error calculating metrics:', error);
+    return null;
+  }
+}
+
+/**
+ * How close a hand is to the face (chin or cheek resting on it): the smallest
+ * distance between a visible hand landmark and a visible mouth, nose or ear
+ * landmark, relative to shoulder width. Undefined when there is nothing
+ * visible to compare.
+ */
+export function calculateHandFaceDistance(
+  handFace: HandFaceLandmarks,
+  landmarks: PostureLandmarks
+): number | undefined {
+  if (!isLandmarkVisible(landmarks.leftShoulder) || !isLandmarkVisible(landmarks.rightShoulder)) {
+    return undefined;
+  }
+  const shoulderWidth = calculateDistance(landmarks.leftShoulder, landmarks.rightShoulder);
+  if (shoulderWidth === 0) return undefined;
+
+  const face = [handFace.mouthLeft, handFace.mouthRight, landmarks.nose, landmarks.leftEar, landmarks.rightEar]
+    .filter(isLandmarkVisible);
+  const hand = [
+    handFace.leftWrist, handFace.leftPinky, handFace.leftIndex, handFace.leftThumb,
+    handFace.rightWrist, handFace.rightPinky, handFace.rightIndex, handFace.rightThumb
+  ].filter(isLandmarkVisible);
+  if (face.length === 0 || hand.length === 0) return undefined;
+
+  // Image plane only: MediaPipe's depth for hands is too rough to rely on
+  let closest = Infinity;
+  for (const h of hand) {
+    for (const f of face) {
+      closest = Math.min(closest, Math.hypot(h.x - f.x, h.y - f.y));
+    }
+  }
+  return closest / shoulderWidth;
+}
+
+/**
+ * Estimate the distance to the screen (where the webcam sits). Apparent
+ * shoulder width scales with 1 / distance, so one reference pair — a
+ * distance the user measured and the shoulder width seen at it — converts
+ * any frame's shoulder width to the same unit.
+ */
+export function estimateScreenDistance(
+  shoulderWidth: number,
+  reference: { distance: number; shoulderWidth: number }
+): number {
+  return reference.distance * reference.shoulderWidth / shoulderWidth;
+}
+
+/**
+ * Check lighting quality (useful for calibration phase)
+ */
+export function checkLightingQuality(landmarks: PostureLandmarks | null): LightingQuality {
+  if (!landmarks) return { quality: 'poor', message: 'No pose detected' };
+
+  // MediaPipe provides visibility scores for landmarks
+  const points = Object.values(landmarks);
+  const avgVisibility = points
+    .reduce((sum, landmark) => sum + (landmark.visibility || 0), 0) / points.length;
+
+  if (avgVisibility > 0.8) {
+    return { quality: 'good', message: 'Lighting is good' };
+  } else if (avgVisibility > 0.6) {
+    return { quality: 'medium', message: 'Lighting could be better' };
+  } else {
+    return { quality: 'poor', message: 'Poor lighting detected' };
+  }
+}
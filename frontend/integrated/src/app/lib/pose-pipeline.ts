@@ -0,0 +1,64 @@
+/**
+ * POSE PIPELINE
+ * Turns raw MediaPipe results into compact posture metrics. Runs inside the
+ * pose worker, or on the main thread when the worker is unavailable, so both
+ * paths produce identical metrics. Landmarks are smoothed over time before
+ * the metrics are calculated; hand landmarks are not, as only their
+ * distance to the face is used. Camera moves are detected here too, on the
+ * raw landmarks, so only the resulting event leaves the worker.
+ */
+
+import { CameraMotionDetector } from "./camera-motion";
+import { LandmarkSmoother } from "./landmark-filter";
+import {
+  calculateHandFaceDistance,
+  calculatePostureMetrics,
+  extractHandFaceLandmarks,
+  extractLandmarks,
+} from "./pose-metrics";
+import type { LandmarkSmoothingOptions, PoseResults, PostureMetrics } from "./posture-types";
+
+export class PosePipeline {
+  smoother: LandmarkSmoother | null = new LandmarkSmoother();
+  cameraMotion = new CameraMotionDetector();
+
+  /**
+   * Set smoothing parameters, or turn smoothing off with `false`
+   */
+  configureSmoothing(options: LandmarkSmoothingOptions | false): void {
+    if (options === false) {
+      this.smoother = null;
+    } else if (this.smoother) {
+      this.smoother.updateOptions(options);
+    } else {
+      this.smoother = new LandmarkSmoother(options);
+    }
+  }
+
+  /**
+   * Process one frame's results. Returns null when no pose was found.
+   * `timestamp` is when the frame was captured, not when inference finished.
+   */
+  process(results: PoseResults, timestamp: number): PostureMetrics | null {
+    const raw = extractLandmarks(results);
+    if (!raw) {
+      // Don't smooth (or compare framing) across a gap in tracking
+      this.smoother?.reset();
+      this.cameraMotion.reset();
+      return null;
+    }
+    const landmarks = this.smoother ? this.smoother.filter(raw, timestamp) : raw;
+    const metrics = calculatePostureMetrics(landmarks, timestamp);
+    if (!metrics) return null;
+
+    const handFace = extractHandFaceLandmarks(results);
+    const handFaceDistance = handFace ? calculateHandFaceDistance(handFace, landmarks) : undefined;
+    // Raw landmarks, so a bump shows as one sudden jump
+    const cameraMove = this.cameraMotion.update(raw, metrics);
+    return {
+      ...metrics,
+      ...(handFaceDistance !== undefined && { handFaceDistance }),
+      ...(cameraMove && { cameraMove })
+    };
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * POSE WORKER
+ * Runs MediaPipe Pose inference and metric calculation off the main thread.
+ * PoseDetector transfers one ImageBitmap per frame and gets back a compact
+ * PostureMetrics object (or null when no pose was found). With eye tracking
+ * on, Face Mesh runs on the same frame and EyeMetrics come back alongside.
+ */
+
+import { calculateEyeMetrics } from "./face-metrics";
+import { mediapipeAssetUrl } from "./mediapipe-loader";
+import { PosePipeline } from "./pose-pipeline";
+import type {
+  FaceMeshResults,
+  LandmarkSmoothingOptions,
+  PoseResults,
+  PoseWorkerRequest,
+  PoseWorkerResponse,
+} from "./posture-types";
+
+declare const self: DedicatedWorkerGlobalScope;
+
+/**
+ * Module workers have no importScripts(), but MediaPipe's solution bundle is a
+ * classic script and uses it to pull in its WASM loader. Fetch synchronously
+ * (allowed in workers) and evaluate in global scope to get the same semantics.
+ */
+function classicImportScripts(...urls: (string | URL)[]): void {
+  for (const url of urls) {
+    const xhr = new XMLHttpRequest();
+    xhr.open("GET", String(url), false);
+    xhr.send();
+    if (xhr.status !== 200) throw new Error(`Failed to load ${url}`);
+    (0, eval)(xhr.responseText);
+  }
+}
+
+const pipeline = new PosePipeline();
+let pose: Pose | null = null;
+let latestResults: PoseResults | null = null;
+let faceMesh: FaceMesh | null = null;
+let latestFaceResults: FaceMeshResults | null = null;
+
+function post(message: PoseWorkerResponse): void {
+  self.postMessage(message);
+}
+
+async function init(options: Record<string, unknown>, smoothing: LandmarkSmoothingOptions | false): Promise<void> {
+  pipeline.configureSmoothing(smoothing);
+  self.importScripts = classicImportScripts;
+  self.importScripts(mediapipeAssetUrl("pose", "pose.js"));
+
+  pose = new Pose({ locateFile: (file) => mediapipeAssetUrl("pose", file) });
+  pose.setOptions(options);
+  pose.onResults((results) => {
+    latestResults = results;
+  });
+  await pose.initialize();
+}
+
+/**
+ * Start or stop the Face Mesh pass. Failures are reported separately so a
+ * missing face model never takes pose inference down with it.
+ */
+async function configureFaceMesh(options: Record<string, unknown> | null): Promise<void> {
+  if (!options) {
+    await faceMesh?.close();
+    faceMesh = null;
+    post({ type: "face-mesh", enabled: false });
+    return;
+  }
+  if (faceMesh) return;
+  try {
+    self.importScripts(mediapipeAssetUrl("face_mesh", "face_mesh.js"));
+    const mesh = new FaceMesh({ locateFile: (file) => mediapipeAssetUrl("face_mesh", file) });
+    mesh.setOptions(options);
+    mesh.onResults((results) => {
+      latestFaceResults = results;
+    });
+    await mesh.initialize();
+    faceMesh = mesh;
+    post({ type: "face-mesh", enabled: true });
+  } catch (error) {
+    post({ type: "face-mesh", enabled: false, error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+async function processFrame(image: ImageBitmap, timestamp: number): Promise<void> {
+  latestResults = null;
+  latestFaceResults = null;
+  try {
+    await pose!.send({ image });
+    if (faceMesh) await faceMesh.send({ image });
+  } finally {
+    image.close();
+  }
+  const metrics = latestResults ? pipeline.process(latestResults, timestamp) : null;
+  const eyes = faceMesh
+    ? latestFaceResults && calculateEyeMetrics(latestFaceResults, timestamp)
+    : undefined;
+  post({ type: "result", metrics, eyes, timestamp });
+}
+
+async function handleMessage(message: PoseWorkerRequest): Promise<void> {
+  try {
+    switch (message.type) {
+      case "init":
+        await init(message.options, message.smoothing);
+        post({ type: "ready" });
+        break;
+      case "face-mesh":
+        await configureFaceMesh(message.options);
+        break;
+      case "frame":
+        await processFrame(message.image, message.timestamp);
+        break;
+      case "close":
+        await faceMesh?.close();
+        await pose?.close();
+        self.close();
+        break;
+    }
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+// One message at a time, so Face Mesh can't be closed in the middle of a frame
+let queue = Promise.resolve();
+self.onmessage = (event: MessageEvent<PoseWorkerRequest>) => {
+  queue = queue.then(() => handleMessage(event.data));
+};
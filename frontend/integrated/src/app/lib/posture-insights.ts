@@ -0,0 +1,160 @@
+/**
+ * POSTURE INSIGHTS
+ * Turns recorded sessions (session-history.ts) into the figures the
+ * /insights screen charts. Pure functions: pass in sessions, get rows back.
+ *
+ * Sessions count toward the local day (or Monday-based week) they started
+ * on, and good-posture percentages are by time, like getStats().
+ */
+
+import type { PostureSessionRecord } from "./posture-types";
+
+export interface PostureQualityPoint {
+  /** Start of the day or week (local midnight, ms since epoch) */
+  start: number;
+  label: string;
+  /** Share of tracked time in good posture, null with nothing tracked */
+  goodPercent: number | null;
+  trackedMinutes: number;
+}
+
+export interface HourlyEpisodes {
+  /** Local hour of day, 0–23 */
+  hour: number;
+  label: string;
+  episodes: number;
+}
+
+export interface IssueFrequency {
+  issue: string;
+  /** Frames the issue was reported in */
+  frames: number;
+  /** Share of all analysed frames (0–100) */
+  percent: number;
+}
+
+/**
+ * Start of the oldest week goodPostureByWeek() covers — query history from here
+ */
+export function insightsRangeStart(weeks = 8, now = Date.now()): number {
+  return addDays(startOfWeek(now), (1 - weeks) * 7);
+}
+
+/**
+ * Good-posture percentage for each of the last `days` days, oldest first
+ */
+export function goodPostureByDay(sessions: PostureSessionRecord[], days = 14, now = Date.now()): PostureQualityPoint[] {
+  const today = startOfDay(now);
+  const starts = Array.from({ length: days }, (_, i) => addDays(today, i - days + 1));
+  return qualityPoints(sessions, starts, startOfDay, start =>
+    new Date(start).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric' }));
+}
+
+/**
+ * Good-posture percentage for each of the last `weeks` weeks (Monday to
+ * Sunday), oldest first
+ */
+export function goodPostureByWeek(sessions: PostureSessionRecord[], weeks = 8, now = Date.now()): PostureQualityPoint[] {
+  const thisWeek = startOfWeek(now);
+  const starts = Array.from({ length: weeks }, (_, i) => addDays(thisWeek, (i - weeks + 1) * 7));
+  return qualityPoints(sessions, starts, startOfWeek, start =>
+    new Date(start).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }));
+}
+
+/**
+ * Slouch alerts by the local hour they started in
+ */
+export function slouchEpisodesByHour(sessions: PostureSessionRecord[]): HourlyEpisodes[] {
+  const hours = Array.from({ length: 24 }, (_, hour) => ({
+    hour,
+    label: `${String(hour).padStart(2, '0')}:00`,
+    episodes: 0
+  }));
+  for (const session of sessions) {
+    for (const episode of session.slouchEpisodes) {
+      hours[new Date(episode.startedAt).getHours()].episodes++;
+    }
+  }
+  return hours;
+}
+
+/**
+ * The issue labels (PostureAnalysis.issues) reported in the most frames
+ */
+export function topIssues(sessions: PostureSessionRecord[], limit = 5): IssueFrequency[] {
+  const counts = new Map<string, number>();
+  let totalFrames = 0;
+  for (const session of sessions) {
+    for (const minute of session.minutes) {
+      totalFrames += minute.frames;
+      for (const [issue, frames] of Object.entries(minute.issues)) {
+        counts.set(issue, (counts.get(issue) ?? 0) + frames);
+      }
+    }
+  }
+
+  return [...counts]
+    .map(([issue, frames]) => ({ issue, frames, percent: totalFrames > 0 ? (frames / totalFrames) * 100 : 0 }))
+    .sort((a, b) => b.frames - a.frames)
+    .slice(0, limit);
+}
+
+/**
+ * Mean seconds from a slouch alert to sitting up again, over the alerts the
+ * user corrected (not ones dropped by a pause or leaving); null if none
+ */
+export function averageTimeToCorrection(sessions: PostureSessionRecord[]): number | null {
+  const times = sessions.flatMap(session => session.slouchEpisodes
+    .filter(episode => episode.corrected)
+    .map(episode => (episode.endedAt - episode.alertedAt) / 1000));
+  if (times.length === 0) return null;
+  return times.reduce((sum, time) => sum + time, 0) / times.length;
+}
+
+function qualityPoints(
+  sessions: PostureSessionRecord[],
+  starts: number[],
+  bucketOf: (timestamp: number) => number,
+  label: (start: number) => string
+): PostureQualityPoint[] {
+  const totals = new Map(starts.map(start => [start, { good: 0, slouched: 0 }]));
+  for (const session of sessions) {
+    const total = totals.get(bucketOf(session.startedAt));
+    if (!total) continue;
+    total.good += session.summary.goodTime;
+    total.slouched += session.summary.slouchTime;
+  }
+
+  return starts.map(start => {
+    const { good, slouched } = totals.get(start)!;
+    const tracked = good + slouched;
+    return {
+      start,
+      label: label(start),
+      goodPercent: tracked > 0 ? Math.round((good / tracked) * 1000) / 10 : null,
+      trackedMinutes: Math.round(tracked / 60)
+    };
+  });
+}
+
+function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function startOfWeek(timestamp: number): number {
+  const date = new Date(startOfDay(timestamp));
+  // getDay(): 0 = Sunday; weeks start on Monday
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+}
+
+/**
+ * Calendar arithmetic, so days stay at local midnight across DST changes
+ */
+function addDays(timestamp: number, days: number): number {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
@@ -12,6 +12,23 @@ export interface PostureLandmarks {
   rightEar: MediaPipeLandmark;
 }
 
+/**
+ * Landmarks for hand-on-face detection: the hands (MediaPipe Pose 15–22)
+ * and the mouth corners (9, 10) a resting chin or cheek sits next to
+ */
+export interface HandFaceLandmarks {
+  mouthLeft: MediaPipeLandmark;
+  mouthRight: MediaPipeLandmark;
+  leftWrist: MediaPipeLandmark;
+  rightWrist: MediaPipeLandmark;
+  leftPinky: MediaPipeLandmark;
+  rightPinky: MediaPipeLandmark;
+  leftIndex: MediaPipeLandmark;
+  rightIndex: MediaPipeLandmark;
+  leftThumb: MediaPipeLandmark;
+  rightThumb: MediaPipeLandmark;
+}
+
 export interface MediaPipeLandmark {
   x: number;
   y: number;
@@ -25,8 +42,112 @@ export interface PostureMetrics {
   torsoAngle: number;
   neckAngle: number;
   forwardLean: number;
+  /** Sideways head tilt: angle of the ear-to-ear line from horizontal (degrees) */
+  headRoll: number;
+  /** Head rotation: nose offset from the ear midpoint, relative to shoulder width */
+  headYaw: number;
   shoulderWidth: number;
   timestamp: number;
+  /** Set on the frame where PosePipeline saw the camera move */
+  cameraMove?: CameraMoveEvent;
+  /** Metrics computed from low-visibility landmarks — their values are guesses */
+  unavailable?: (keyof CalibrationMetrics)[];
+  /** Body parts whose landmarks are not visible */
+  hiddenParts?: BodyPart[];
+  /**
+   * Closest visible hand landmark to the mouth, nose or ears, relative to
+   * shoulder width. Unset when no hand (or no face or shoulders) is visible
+   */
+  handFaceDistance?: number;
+}
+
+export type BodyPart = 'head' | 'shoulders' | 'hips';
+
+/** One-Euro landmark smoothing parameters, see LandmarkSmoother */
+export interface LandmarkSmoothingOptions {
+  /** Cutoff frequency (Hz) while landmarks are still — lower removes more jitter */
+  minCutoff?: number;
+  /** How fast the cutoff opens up with speed — higher reduces lag during real movement */
+  beta?: number;
+  /** Cutoff frequency (Hz) for the speed estimate */
+  derivativeCutoff?: number;
+  /** Frame gap (ms) after which the filter starts over instead of smoothing across it */
+  maxGap?: number;
+}
+
+/** Posture metrics averaged over a calibration or reference window */
+export type CalibrationMetrics = Pick<
+  PostureMetrics,
+  'headShoulderRatio' | 'shoulderAsymmetry' | 'torsoAngle' | 'neckAngle' | 'forwardLean' | 'headRoll' | 'headYaw'
+>;
+
+export type CalibrationPostureType = 'good' | 'slouched';
+
+export interface MetricDistribution {
+  mean: number;
+  std: number;
+  min: number;
+  max: number;
+}
+
+/** Spread of each metric across one posture's calibration frames */
+export interface PostureDistribution {
+  metrics: Record<keyof CalibrationMetrics, MetricDistribution>;
+  /** Evenly spaced subset of the captured frames */
+  samples: CalibrationMetrics[];
+  frameCount: number;
+  /** Migrated from a means-only calibration: std is a default estimate */
+  estimated?: boolean;
+}
+
+export interface CalibrationData {
+  /** Mean metrics per posture */
+  goodPosture: CalibrationMetrics | null;
+  slouchedPosture: CalibrationMetrics | null;
+  goodDistribution?: PostureDistribution | null;
+  slouchedDistribution?: PostureDistribution | null;
+  /**
+   * Mean shoulder width (normalised image units) during good-posture
+   * calibration — a proxy for how far the camera is from the user
+   */
+  shoulderWidth?: number;
+  /**
+   * Eye-to-screen distance (cm) the user measured during good-posture
+   * calibration; with `shoulderWidth` it converts live frames to distances
+   */
+  screenDistance?: number;
+  calibratedAt: number;
+  userId?: string;
+  savedAt?: number;
+}
+
+/** A complete, validated calibration as persisted by calibration-storage */
+export interface StoredCalibration extends CalibrationData {
+  savedAt: number;
+  goodPosture: CalibrationMetrics;
+  slouchedPosture: CalibrationMetrics;
+  goodDistribution: PostureDistribution;
+  slouchedDistribution: PostureDistribution;
+}
+
+/** One named setup (e.g. "Desk", "Laptop", "Standing") */
+export interface CalibrationProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+  /** Null until the profile has been calibrated */
+  calibration: StoredCalibration | null;
+}
+
+export interface UserCalibrationProfiles {
+  activeProfileId: string | null;
+  profiles: CalibrationProfile[];
+}
+
+/** Everything under localStorage['postureCalibration'] (current schema) */
+export interface CalibrationStore {
+  version: 4;
+  users: Record<string, UserCalibrationProfiles>;
 }
 
 export interface PostureAnalysis {
@@ -34,54 +155,354 @@ export interface PostureAnalysis {
   issues: string[];
   severity: 'mild' | 'moderate' | 'severe';
   totalDeviation: string;
+  /** 0–1 likelihood the frame is slouched, from classifiers that model it */
+  slouchProbability?: number;
+  /**
+   * Drift strategy: how far each flagged metric moved from the session
+   * baseline (% for the ratios, degrees or shoulder widths for head roll and
+   * yaw). `issues` holds only the stable METRIC_ISSUE_LABELS.
+   */
+  drift?: Partial<Record<keyof CalibrationMetrics, number>>;
   currentMetrics: {
     headShoulder: string;
     shoulders: string;
     torso: string;
     neck: string;
     lean: string;
+    roll: string;
+    yaw: string;
   };
 }
 
+/**
+ * A posture classification strategy: turns one frame's metrics into an
+ * analysis. CalibratedPostureMonitor owns the timing (how long a slouch must
+ * last before alerting); classifiers only judge individual frames.
+ */
+export interface PostureClassifier {
+  /** Registry name, e.g. 'calibrated' */
+  readonly name: string;
+  /** Whether the classifier needs saved good/slouched calibration data */
+  readonly requiresCalibration: boolean;
+  analyze(metrics: PostureMetrics): PostureAnalysis;
+  /** Clear per-session state such as a session baseline */
+  reset?(): void;
+  /** Move a session baseline to the monitor's adaptive baseline */
+  rebase?(baseline: CalibrationMetrics): void;
+}
+
+/** A sudden framing change: the camera (not the user) moved */
+export interface CameraMoveEvent {
+  /** 'shift' = every landmark jumped together; 'scale' = shoulder width jumped */
+  kind: 'shift' | 'scale';
+  /** Median landmark displacement (image widths) or shoulder-width ratio */
+  magnitude: number;
+  timestamp: number;
+}
+
+/** The adaptive baseline at one checkpoint */
+export interface BaselineSnapshot {
+  timestamp: number;
+  baseline: CalibrationMetrics;
+  /** Per-metric shift from the original calibration, in standard deviations */
+  drift: CalibrationMetrics;
+  /** Largest absolute drift across metrics (σ) */
+  maxDrift: number;
+}
+
 export interface SlouchEvent {
   reason: string;
   severity: string;
   duration: number;
   deviation: string;
+  /** Frame that raised the alert */
+  timestamp: number;
 }
 
 export interface CalibrationProgress {
   progress: number;
   framesCollected: number;
-  framesRequired: number;
+  /** Seconds of frames captured so far */
+  elapsed: number;
+}
+
+export interface QuickReferenceProgress {
+  progress: number;
+  framesCollected: number;
+  message: string;
+}
+
+/** A stored profile close enough to the live camera geometry */
+export interface ProfileMatch {
+  profileId: string;
+  name: string;
+  /** 0 = identical; 1 ≈ at the edge of the match tolerance */
+  distance: number;
+}
+
+export interface QuickReferenceResult {
+  referenceMetrics: CalibrationMetrics;
+  shoulderWidth: number;
+  /** Closest calibrated profile, now active; null if none is within tolerance */
+  matchedProfile: ProfileMatch | null;
+  needsRecalibration: boolean;
+  reason: string;
+  adjustedBaseline: CalibrationMetrics | null;
+}
+
+export interface QuickReference {
+  /** Feed every detector frame here until `result` settles */
+  collector: (metrics: PostureMetrics | null) => void;
+  /** Rejects with a QuickReferenceError on timeout or cancel() */
+  result: Promise<QuickReferenceResult>;
+  /** Abandon the check (monitoring stopped meanwhile) */
+  cancel: () => void;
+}
+
+export interface RecalibrationCheck {
+  needed: boolean;
+  reason: string;
+}
+
+export interface LightingQuality {
+  quality: 'good' | 'medium' | 'poor';
+  message: string;
 }
 
 export interface PostureStats {
   sessionDuration: string;
   postureQuality: string;
   totalAlerts: number;
+  /** "Too close to the screen" alerts */
+  distanceAlerts: number;
+  /** Time away from the desk (e.g. "5 minutes"); it doesn't count toward postureQuality */
+  timeAway: string;
+  /** How many times the user left the desk */
+  awayCount: number;
   currentState: 'SLOUCHED' | 'GOOD';
 }
 
-// Global declarations for MediaPipe (loaded via CDN)
+export interface ScreenDistanceEvent {
+  /** Estimated distance from the screen (cm) */
+  distance: number;
+  /** Closest distance that doesn't count as too close (cm) */
+  minDistance: number;
+  /** Seconds spent too close before the alert */
+  duration: number;
+}
+
+/** A slouch alert was dismissed after enough good posture */
+export interface SlouchEndEvent {
+  /** Seconds from the first slouched frame to the correction */
+  duration: number;
+  timestamp: number;
+}
+
+export interface FrameAnalyzedEvent {
+  metrics: PostureMetrics;
+  analysis: PostureAnalysis;
+  /** How full the slouch bucket is: 0 = empty, 1 = alert */
+  slouchLevel: number;
+}
+
+/** The 3-minute check that moves the adaptive baseline */
+export interface DriftCheckEvent {
+  analysis: PostureAnalysis;
+  /** Null while there is no baseline to record */
+  snapshot: BaselineSnapshot | null;
+  timestamp: number;
+}
+
+/** The baseline has drifted so far from the saved profile that it should be recalibrated */
+export interface CalibrationStaleEvent {
+  reason: string;
+  /** Largest per-metric drift from the saved calibration (σ) */
+  maxDrift: number;
+  timestamp: number;
+}
+
+/** 'pose-lost' = no pose for a moment; 'away' = left the desk */
+export type PresenceState = 'present' | 'pose-lost' | 'away';
+
+/** A PresenceTracker state change */
+export interface PresenceChange {
+  from: PresenceState;
+  to: PresenceState;
+  /** Seconds since the pose was last seen (when returning: how long it was gone) */
+  duration: number;
+  timestamp: number;
+}
+
+export interface PosePresenceEvent {
+  /**
+   * pose-lost / user-away: seconds since the pose was last seen;
+   * pose-found / user-returned: how long it was gone
+   */
+  duration: number;
+  timestamp: number;
+}
+
+/** Everything CalibratedPostureMonitor.events emits, by event name */
+export interface PostureEventMap {
+  'slouch-start': SlouchEvent;
+  'slouch-end': SlouchEndEvent;
+  'frame-analyzed': FrameAnalyzedEvent;
+  'drift-check': DriftCheckEvent;
+  'calibration-stale': CalibrationStaleEvent;
+  'camera-moved': CameraMoveEvent;
+  'too-close-start': ScreenDistanceEvent;
+  'too-close-end': { distance: number; timestamp: number };
+  'pose-lost': PosePresenceEvent;
+  'pose-found': PosePresenceEvent;
+  'user-away': PosePresenceEvent;
+  'user-returned': PosePresenceEvent;
+}
+
+/** One frame of Face Mesh eye measurements */
+export interface EyeMetrics {
+  /** Eye aspect ratio (lid gap ÷ eye width) averaged over both eyes — drops towards 0 as the eyes close */
+  eyeOpenness: number;
+  timestamp: number;
+}
+
+/** A 20-20-20 reminder: look 20 feet away for 20 seconds */
+export interface EyeBreakEvent {
+  /** 'screen-time' = the regular interval; the others bring it forward */
+  reason: 'screen-time' | 'low-blink-rate' | 'staring';
+  message: string;
+  /** Minutes at the screen since the last break */
+  screenTime: number;
+  /** Blinks per minute, null when frames were too sparse to count them */
+  blinkRate: number | null;
+}
+
+export interface EyeStrainStats {
+  /** Blinks per minute over the last minute, null while it can't be measured */
+  blinkRate: number | null;
+  /** Longest unbroken stare this session (seconds) */
+  longestStare: number;
+  /** Minutes at the screen since the last break */
+  screenTime: number;
+  reminders: number;
+  breaksTaken: number;
+}
+
+/** PostureMetrics fields recorded in session history */
+export type SessionMetricKey = keyof CalibrationMetrics | 'shoulderWidth' | 'handFaceDistance';
+
+export interface MetricAggregate {
+  mean: number;
+  min: number;
+  max: number;
+  /** Frames the metric was measured in (hidden landmarks are skipped) */
+  count: number;
+}
+
+/** One minute of a recorded session */
+export interface MinuteAggregate {
+  /** Start of the minute (ms since epoch, a multiple of 60 000) */
+  startedAt: number;
+  frames: number;
+  slouchedFrames: number;
+  metrics: Partial<Record<SessionMetricKey, MetricAggregate>>;
+  /** Frames each PostureAnalysis issue label was reported in */
+  issues: Record<string, number>;
+}
+
+/** A slouch alert, from the first slouched frame until it was corrected or dropped */
+export interface SlouchEpisode {
+  startedAt: number;
+  /** When the alert fired */
+  alertedAt: number;
+  endedAt: number;
+  /** Seconds */
+  duration: number;
+  /** Ended by good posture; false if dropped (pause, camera move, leaving, stop) */
+  corrected: boolean;
+  reason: string;
+  severity: string;
+  deviation: string;
+}
+
+/** The user left the desk (see PresenceTracker) */
+export interface AwayPeriod {
+  /** When the pose was last seen */
+  startedAt: number;
+  endedAt: number;
+  /** Seconds */
+  duration: number;
+}
+
+/** Session totals, in seconds */
+export interface SessionSummary {
+  goodTime: number;
+  slouchTime: number;
+  awayTime: number;
+  alerts: number;
+  distanceAlerts: number;
+}
+
+/** One monitoring session as stored in IndexedDB by session-history.ts */
+export interface PostureSessionRecord {
+  id: string;
+  userId: string;
+  /** Calibration profile in use; switching profiles starts a new record */
+  profileId: string | null;
+  /** Classifier registry name */
+  strategy: string;
+  startedAt: number;
+  /** Last time the record was written; the end of the session once `completed` */
+  endedAt: number;
+  /** False if the page closed before the session was stopped */
+  completed: boolean;
+  minutes: MinuteAggregate[];
+  slouchEpisodes: SlouchEpisode[];
+  awayPeriods: AwayPeriod[];
+  summary: SessionSummary;
+}
+
+export interface PoseResults {
+  poseLandmarks?: MediaPipeLandmark[];
+}
+
+export interface FaceMeshResults {
+  multiFaceLandmarks?: MediaPipeLandmark[][];
+}
+
+/** Messages from PoseDetector (main thread) to the pose worker */
+export type PoseWorkerRequest =
+  | { type: 'init'; options: Record<string, unknown>; smoothing: LandmarkSmoothingOptions | false }
+  /** Start (options) or stop (null) the Face Mesh pass */
+  | { type: 'face-mesh'; options: Record<string, unknown> | null }
+  | { type: 'frame'; image: ImageBitmap; timestamp: number }
+  | { type: 'close' };
+
+/** Messages from the pose worker back to PoseDetector */
+export type PoseWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  /** Face Mesh started, stopped or failed; pose inference is unaffected */
+  | { type: 'face-mesh'; enabled: boolean; error?: string }
+  /** `eyes` is undefined while the Face Mesh pass is off, null when no face was found */
+  | { type: 'result'; metrics: PostureMetrics | null; eyes?: EyeMetrics | null; timestamp: number };
+
+// Global declarations for MediaPipe (self-hosted scripts, see mediapipe-loader.ts)
 declare global {
   class Pose {
     constructor(config: { locateFile: (file: string) => string });
     setOptions(options: Record<string, unknown>): void;
     onResults(callback: (results: PoseResults) => void): void;
-    send(data: { image: HTMLVideoElement }): Promise<void>;
+    initialize(): Promise<void>;
+    send(data: { image: HTMLVideoElement | ImageBitmap }): Promise<void>;
+    close(): Promise<void>;
   }
 
-  class Camera {
-    constructor(
-      video: HTMLVideoElement,
-      config: { onFrame: () => Promise<void>; width: number; height: number }
-    );
-    start(): Promise<void>;
-    stop(): void;
-  }
-
-  interface PoseResults {
-    poseLandmarks?: MediaPipeLandmark[];
+  class FaceMesh {
+    constructor(config: { locateFile: (file: string) => string });
+    setOptions(options: Record<string, unknown>): void;
+    onResults(callback: (results: FaceMeshResults) => void): void;
+    initialize(): Promise<void>;
+    send(data: { image: HTMLVideoElement | ImageBitmap }): Promise<void>;
+    close(): Promise<void>;
   }
 }
@@ -0,0 +1,77 @@
+/**
+ * PRESENCE TRACKER
+ * Works out from frames with and without a pose whether the user is at the
+ * desk.
+ *
+ * MediaPipe misses the odd frame, so the pose only counts as lost after
+ * poseLostDelay without one — that is a glance away or a hand over the
+ * camera. After awayDelay the user has left the desk; the time since the pose
+ * was last seen is then counted as time away, not time at the desk.
+ */
+
+import type { PresenceChange, PresenceState } from "./posture-types";
+
+export class PresenceTracker {
+  poseLostDelay = 1_000; // 1 second without a pose
+  awayDelay = 30_000; // 30 seconds without a pose = left the desk
+
+  state: PresenceState = 'present';
+  lastSeenAt: number | null = null;
+
+  private awayTime = 0; // ms, finished absences only
+  private awayCount = 0;
+
+  /**
+   * Start over, as if the user was seen at `now`
+   */
+  reset(now: number): void {
+    this.state = 'present';
+    this.lastSeenAt = now;
+    this.awayTime = 0;
+    this.awayCount = 0;
+  }
+
+  /**
+   * Feed a frame; returns the change of state it caused, if any
+   */
+  update(hasPose: boolean, now: number): PresenceChange | null {
+    const lastSeenAt = this.lastSeenAt ?? now;
+    const from = this.state;
+
+    if (hasPose) {
+      this.lastSeenAt = now;
+      if (from === 'present') return null;
+      if (from === 'away') {
+        this.awayTime += Math.max(now - lastSeenAt, 0);
+        this.awayCount++;
+      }
+      this.state = 'present';
+      return { from, to: 'present', duration: (now - lastSeenAt) / 1000, timestamp: now };
+    }
+
+    const missing = now - lastSeenAt;
+    if (from === 'present' && missing >= this.poseLostDelay) {
+      this.state = 'pose-lost';
+    } else if (from === 'pose-lost' && missing >= this.awayDelay) {
+      this.state = 'away';
+    } else {
+      return null;
+    }
+    return { from, to: this.state, duration: missing / 1000, timestamp: now };
+  }
+
+  /**
+   * Total time away from the desk (ms), including an absence still going on
+   */
+  getAwayTime(now: number): number {
+    const current = this.state === 'away' && this.lastSeenAt !== null ? Math.max(now - this.lastSeenAt, 0) : 0;
+    return this.awayTime + current;
+  }
+
+  /**
+   * How many times the user has left the desk, including right now
+   */
+  getAwayCount(): number {
+    return this.awayCount + (this.state === 'away' ? 1 : 0);
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * SESSION HISTORY
+ * IndexedDB store for recorded monitoring sessions (see SessionRecorder):
+ * per-minute metric aggregates, slouch episodes and away periods, so posture
+ * history survives a reload.
+ *
+ * Queries are by the time a session started — a day, a range, or a profile —
+ * and resolve oldest first. A browser without IndexedDB (or one that refuses
+ * it, e.g. some private modes) rejects with a SessionHistoryError.
+ */
+
+import type { PostureSessionRecord } from "./posture-types";
+
+export const SESSION_HISTORY_DB = 'postureHistory';
+export const SESSION_HISTORY_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+
+export type SessionHistoryErrorReason = 'unavailable' | 'request-failed';
+
+export class SessionHistoryError extends Error {
+  constructor(readonly reason: SessionHistoryErrorReason, message: string) {
+    super(message);
+    this.name = 'SessionHistoryError';
+  }
+}
+
+export interface SessionQuery {
+  /** Sessions that started at or after this time (ms since epoch) */
+  from?: number;
+  /** ...and before this time */
+  to?: number;
+  profileId?: string;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (database) return database;
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new SessionHistoryError('unavailable', 'IndexedDB is not available'));
+  }
+
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(SESSION_HISTORY_DB, SESSION_HISTORY_VERSION);
+    let blocked = false;
+
+    request.onupgradeneeded = () => {
+      const sessions = request.result.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+      sessions.createIndex('startedAt', 'startedAt');
+      sessions.createIndex('profileStartedAt', ['profileId', 'startedAt']);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Opened after we gave up on it: nobody holds this connection
+      if (blocked) {
+        db.close();
+        return;
+      }
+      // Another tab upgrading the schema: let it, and reopen on the next call
+      db.onversionchange = () => {
+        db.close();
+        database = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      reject(new SessionHistoryError('unavailable', `Could not open session history: ${request.error?.message}`));
+    };
+    // An older connection in another tab won't close for the upgrade
+    request.onblocked = () => {
+      blocked = true;
+      reject(new SessionHistoryError('unavailable', 'Session history is in use by another tab — close it and try again'));
+    };
+  });
+  database = opening;
+  // A failed open isn't cached: the next call tries again
+  opening.catch(() => {
+    if (database === opening) database = null;
+  });
+  return opening;
+}
+
+/**
+ * Run one request in its own transaction
+ */
+async function run<T>(
+  mode: IDBTransactionMode,
+  makeRequest: (sessions: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(SESSIONS_STORE, mode);
+    const request = makeRequest(transaction.objectStore(SESSIONS_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => {
+      reject(new SessionHistoryError('request-failed', `Session history request failed: ${transaction.error?.message}`));
+    };
+    transaction.onabort = transaction.onerror;
+  });
+}
+
+/**
+ * Insert or replace a session (recorders save the same id repeatedly)
+ */
+export async function saveSession(record: PostureSessionRecord): Promise<void> {
+  await run('readwrite', sessions => sessions.put(record));
+}
+
+export async function getSession(id: string): Promise<PostureSessionRecord | null> {
+  const record = await run<PostureSessionRecord | undefined>('readonly', sessions => sessions.get(id));
+  return record ?? null;
+}
+
+/**
+ * Sessions that started within the query's range (and profile), oldest first
+ */
+export function querySessions({ from, to, profileId }: SessionQuery = {}): Promise<PostureSessionRecord[]> {
+  if (profileId !== undefined) {
+    const range = IDBKeyRange.bound([profileId, from ?? 0], [profileId, to ?? Infinity], false, to !== undefined);
+    return run('readonly', sessions => sessions.index('profileStartedAt').getAll(range));
+  }
+  return run('readonly', sessions => sessions.index('startedAt').getAll(timeRange(from, to)));
+}
+
+export function getSessionsInRange(from: number, to: number, profileId?: string): Promise<PostureSessionRecord[]> {
+  return querySessions({ from, to, profileId });
+}
+
+/**
+ * Sessions that started on the given local calendar day
+ */
+export function getSessionsByDay(day: Date | number, profileId?: string): Promise<PostureSessionRecord[]> {
+  const start = new Date(day);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return querySessions({ from: start.getTime(), to: end.getTime(), profileId });
+}
+
+export function getSessionsByProfile(profileId: string, from?: number, to?: number): Promise<PostureSessionRecord[]> {
+  return querySessions({ from, to, profileId });
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await run('readwrite', sessions => sessions.delete(id));
+}
+
+export async function clearSessionHistory(): Promise<void> {
+  await run('readwrite', sessions => sessions.clear());
+}
+
+function timeRange(from?: number, to?: number): IDBKeyRange | undefined {
+  if (from !== undefined && to !== undefined) return IDBKeyRange.bound(from, to, false, true);
+  if (from !== undefined) return IDBKeyRange.lowerBound(from);
+  if (to !== undefined) return IDBKeyRange.upperBound(to, true);
+  return undefined;
+}
@@ -0,0 +1,270 @@
+/**
+ * SESSION RECORDER
+ * Records one monitoring session into session history (IndexedDB) from the
+ * monitor's events: every analysed frame is folded into a per-minute
+ * aggregate, and slouch alerts and absences become episodes.
+ *
+ * The record is saved as each minute closes and once more on finish(), so a
+ * reload loses at most the last minute; such a record keeps
+ * `completed: false`.
+ */
+
+import type { CalibratedPostureMonitor } from "./calibrated-posture-monitor";
+import type { Unsubscribe } from "./event-emitter";
+import { isMetricAvailable } from "./pose-metrics";
+import type {
+  FrameAnalyzedEvent,
+  MinuteAggregate,
+  PostureMetrics,
+  PostureSessionRecord,
+  SessionMetricKey,
+  SessionSummary,
+  SlouchEpisode,
+} from "./posture-types";
+import { saveSession } from "./session-history";
+
+export const SESSION_METRIC_KEYS: SessionMetricKey[] = [
+  'headShoulderRatio',
+  'shoulderAsymmetry',
+  'torsoAngle',
+  'neckAngle',
+  'forwardLean',
+  'headRoll',
+  'headYaw',
+  'shoulderWidth',
+  'handFaceDistance'
+];
+
+const MINUTE = 60_000;
+
+export interface SessionRecorderOptions {
+  userId: string;
+  profileId: string | null;
+  /** Classifier registry name */
+  strategy: string;
+}
+
+interface MetricAccumulator {
+  sum: number;
+  min: number;
+  max: number;
+  count: number;
+}
+
+interface MinuteAccumulator {
+  startedAt: number;
+  frames: number;
+  slouchedFrames: number;
+  metrics: Partial<Record<SessionMetricKey, MetricAccumulator>>;
+  issues: Record<string, number>;
+}
+
+export class SessionRecorder {
+  record: PostureSessionRecord | null = null;
+
+  private monitor: CalibratedPostureMonitor;
+  private options: SessionRecorderOptions;
+  private unsubscribers: Unsubscribe[] = [];
+  private minute: MinuteAccumulator | null = null;
+  private openEpisode: Omit<SlouchEpisode, 'endedAt' | 'duration' | 'corrected'> | null = null;
+  private lastFrameAt: number | null = null;
+  // Monitor counters when this record started (they carry on across profile switches)
+  private statsAtStart: SessionSummary = { goodTime: 0, slouchTime: 0, awayTime: 0, alerts: 0, distanceAlerts: 0 };
+
+  constructor(monitor: CalibratedPostureMonitor, options: SessionRecorderOptions) {
+    this.monitor = monitor;
+    this.options = options;
+  }
+
+  /**
+   * Start a new record and listen to the monitor
+   */
+  start(now = Date.now()): void {
+    if (this.record) this.finish(now);
+
+    this.record = {
+      id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      userId: this.options.userId,
+      profileId: this.options.profileId,
+      strategy: this.options.strategy,
+      startedAt: now,
+      endedAt: now,
+      completed: false,
+      minutes: [],
+      slouchEpisodes: [],
+      awayPeriods: [],
+      summary: { goodTime: 0, slouchTime: 0, awayTime: 0, alerts: 0, distanceAlerts: 0 }
+    };
+    this.statsAtStart = this.readCounters(now);
+    this.lastFrameAt = null;
+
+    const events = this.monitor.events;
+    this.unsubscribers = [
+      events.on('frame-analyzed', event => this.addFrame(event)),
+      events.on('slouch-start', event => {
+        this.openEpisode = {
+          startedAt: event.timestamp - event.duration * 1000,
+          alertedAt: event.timestamp,
+          reason: event.reason,
+          severity: event.severity,
+          deviation: event.deviation
+        };
+      }),
+      events.on('slouch-end', event => this.closeEpisode(event.timestamp, true)),
+      events.on('user-away', () => this.closeEpisode(this.lastFrameAt)),
+      events.on('camera-moved', event => this.closeEpisode(event.timestamp)),
+      events.on('user-returned', event => {
+        this.record?.awayPeriods.push({
+          startedAt: event.timestamp - event.duration * 1000,
+          endedAt: event.timestamp,
+          duration: event.duration
+        });
+      })
+    ];
+    console.log(`📼 Recording session ${this.record.id}`);
+  }
+
+  /**
+   * Stop listening and save the complete record
+   */
+  finish(now = Date.now()): Promise<void> {
+    const record = this.record;
+    if (!record) return Promise.resolve();
+
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.closeEpisode(this.lastFrameAt ?? now);
+    this.closeMinute();
+
+    // Still away: the absence runs until the session ends
+    const presence = this.monitor.presence;
+    if (presence.state === 'away' && presence.lastSeenAt !== null) {
+      record.awayPeriods.push({
+        startedAt: presence.lastSeenAt,
+        endedAt: now,
+        duration: (now - presence.lastSeenAt) / 1000
+      });
+    }
+
+    record.completed = true;
+    this.record = null;
+    console.log(`📼 Session ${record.id} recorded`);
+    return this.save(record, now);
+  }
+
+  /**
+   * The user picked another calibration profile: finish this record and
+   * start one for the new profile
+   */
+  switchProfile(profileId: string | null, now = Date.now()): void {
+    this.finish(now);
+    this.options = { ...this.options, profileId };
+    this.start(now);
+  }
+
+  private addFrame({ metrics, analysis, slouchLevel }: FrameAnalyzedEvent): void {
+    const now = metrics.timestamp;
+    // The alert was dropped without a slouch-end (paused, then resumed)
+    if (this.openEpisode && slouchLevel < 1) this.closeEpisode(this.lastFrameAt);
+    this.lastFrameAt = now;
+
+    const minuteStart = Math.floor(now / MINUTE) * MINUTE;
+    if (this.minute && this.minute.startedAt !== minuteStart) {
+      this.closeMinute();
+      if (this.record) this.save(this.record, now);
+    }
+    this.minute ??= { startedAt: minuteStart, frames: 0, slouchedFrames: 0, metrics: {}, issues: {} };
+
+    const minute = this.minute;
+    minute.frames++;
+    if (analysis.isSlouching) minute.slouchedFrames++;
+    for (const issue of analysis.issues) {
+      minute.issues[issue] = (minute.issues[issue] ?? 0) + 1;
+    }
+
+    for (const key of SESSION_METRIC_KEYS) {
+      const value = metrics[key];
+      if (value === undefined || !Number.isFinite(value) || !isRecordable(metrics, key)) continue;
+
+      const metric = minute.metrics[key];
+      if (metric) {
+        metric.sum += value;
+        metric.min = Math.min(metric.min, value);
+        metric.max = Math.max(metric.max, value);
+        metric.count++;
+      } else {
+        minute.metrics[key] = { sum: value, min: value, max: value, count: 1 };
+      }
+    }
+  }
+
+  private closeMinute(): void {
+    const minute = this.minute;
+    this.minute = null;
+    if (!minute || !this.record) return;
+
+    const aggregate: MinuteAggregate = {
+      startedAt: minute.startedAt,
+      frames: minute.frames,
+      slouchedFrames: minute.slouchedFrames,
+      metrics: {},
+      issues: minute.issues
+    };
+    for (const [key, metric] of Object.entries(minute.metrics) as [SessionMetricKey, MetricAccumulator][]) {
+      aggregate.metrics[key] = { mean: metric.sum / metric.count, min: metric.min, max: metric.max, count: metric.count };
+    }
+    this.record.minutes.push(aggregate);
+  }
+
+  private closeEpisode(endedAt: number | null, corrected = false): void {
+    const episode = this.openEpisode;
+    this.openEpisode = null;
+    if (!episode || !this.record) return;
+
+    const end = Math.max(endedAt ?? episode.alertedAt, episode.alertedAt);
+    this.record.slouchEpisodes.push({
+      ...episode,
+      endedAt: end,
+      duration: (end - episode.startedAt) / 1000,
+      corrected
+    });
+  }
+
+  private readCounters(now: number): SessionSummary {
+    const { stats, presence } = this.monitor;
+    return {
+      goodTime: stats.goodTime / 1000,
+      slouchTime: stats.slouchTime / 1000,
+      awayTime: presence.getAwayTime(now) / 1000,
+      alerts: stats.alerts,
+      distanceAlerts: stats.distanceAlerts
+    };
+  }
+
+  private save(record: PostureSessionRecord, now: number): Promise<void> {
+    const counters = this.readCounters(now);
+    const start = this.statsAtStart;
+    record.endedAt = now;
+    record.summary = {
+      goodTime: counters.goodTime - start.goodTime,
+      slouchTime: counters.slouchTime - start.slouchTime,
+      awayTime: counters.awayTime - start.awayTime,
+      alerts: counters.alerts - start.alerts,
+      distanceAlerts: counters.distanceAlerts - start.distanceAlerts
+    };
+
+    // History is best effort: never let storage trouble reach the frame loop
+    return saveSession(record).catch(error => {
+      console.warn('⚠️ Could not save session history:', error);
+    });
+  }
+}
+
+/**
+ * Metrics built on hidden landmarks are guesses — leave them out of the averages
+ */
+function isRecordable(metrics: PostureMetrics, key: SessionMetricKey): boolean {
+  if (key === 'shoulderWidth') return !metrics.hiddenParts?.includes('shoulders');
+  if (key === 'handFaceDistance') return true;
+  return isMetricAvailable(metrics, key);
+}
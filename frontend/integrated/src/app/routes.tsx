@@ -3,6 +3,7 @@ import { RootLayout } from "./layouts/RootLayout";
 import { LoginScreen } from "./screens/LoginScreen";
 import { CalibrationScreen } from "./screens/CalibrationScreen";
 import { SanctuaryScreen } from "./screens/SanctuaryScreen";
+import { InsightsScreen } from "./screens/InsightsScreen";
 
 export const router = createBrowserRouter([
   {
@@ -12,6 +13,7 @@ export const router = createBrowserRouter([
       { index: true, element: <LoginScreen /> },
       { path: "calibration", element: <CalibrationScreen /> },
       { path: "sanctuary", element: <SanctuaryScreen /> },
+      { path: "insights", element: <InsightsScreen /> },
     ],
   },
 ]);
\ No newline at end of file
@@ -1,31 +1,16 @@
-import { useState, useEffect, useRef, useCallback } from "react";
-import { useNavigate } from "react-router";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import { useNavigate, useSearchParams } from "react-router";
 import { motion, AnimatePresence } from "motion/react";
 import Webcam from "react-webcam";
 import { Check, AlertCircle, Wifi, WifiOff } from "lucide-react";
-import type { PostureMetrics, CalibrationProgress } from "../lib/posture-types";
-
-// ─── MediaPipe CDN scripts ───────────────────────────────────────────────────
-const MEDIAPIPE_SCRIPTS = [
-  "https://cdn.jsdelivr.net/npm/@mediapipe/camera_utils/camera_utils.js",
-  "https://cdn.jsdelivr.net/npm/@mediapipe/control_utils/control_utils.js",
-  "https://cdn.jsdelivr.net/npm/@mediapipe/drawing_utils/drawing_utils.js",
-  "https://cdn.jsdelivr.net/npm/@mediapipe/pose/pose.js",
-];
-
-function loadScript(src: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    if (document.querySelector(`script[src="${src}"]`)) { resolve(); return; }
-    const s = document.createElement("script");
-    s.src = src; s.crossOrigin = "anonymous";
-    s.onload = () => resolve();
-    s.onerror = () => reject(new Error(`Failed to load ${src}`));
-    document.head.appendChild(s);
-  });
-}
+import { PoseDetector } from "../lib/pose-detection";
+import { PostureCalibrator } from "../lib/calibration";
+import { CalibrationStorageError } from "../lib/calibration-storage";
+import { loadMediaPipe } from "../lib/mediapipe-loader";
+import { usePosture } from "../context/PostureContext";
 
 // ─── Calibration step machine ────────────────────────────────────────────────
-type CalibStep = "loading" | "align" | "good" | "bad" | "success" | "error";
+type CalibStep = "loading" | "align" | "good" | "bad" | "success" | "error" | "saveError";
 
 const STEP_LABEL: Record<CalibStep, string> = {
   loading: "Initialising camera…",
@@ -34,48 +19,68 @@ const STEP_LABEL: Record<CalibStep, string> = {
   bad:     "Now slouch naturally",
   success: "Calibration complete!",
   error:   "Camera unavailable",
+  saveError: "Couldn't save your calibration",
 };
 
+// Why saveCalibration() failed, in the user's terms
+function describeSaveError(error: Error | null): string {
+  if (error instanceof CalibrationStorageError) {
+    return "The captured posture didn't look valid — calibrate again.";
+  }
+  if (error?.name === "QuotaExceededError") {
+    return "Browser storage for this site is full — free some space and try again.";
+  }
+  return "Your browser wouldn't store it (private browsing or site data blocked) — allow site data and try again.";
+}
+
+// Accepted range for the measured screen distance (cm)
+const MIN_SCREEN_DISTANCE = 25;
+const MAX_SCREEN_DISTANCE = 150;
+
 export function CalibrationScreen() {
   const navigate = useNavigate();
+  // Calibrate into a specific profile (?profile=<id>); otherwise the active one
+  const [searchParams] = useSearchParams();
+  const profileId = searchParams.get("profile");
+  // Set when the Sanctuary's reference check sent the user back here
+  const recalibrationReason = searchParams.get("reason");
+  const profileName = useMemo(() => {
+    if (!profileId) return null;
+    try {
+      return new PostureCalibrator().listProfiles().find((p) => p.id === profileId)?.name ?? null;
+    } catch {
+      return null;
+    }
+  }, [profileId]);
   const webcamRef = useRef<Webcam>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const detectorRef   = useRef<any>(null);
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const calibratorRef = useRef<any>(null);
+  const detectorRef   = useRef<PoseDetector | null>(null);
+  const calibratorRef = useRef<PostureCalibrator | null>(null);
 
   const [step,      setStep]      = useState<CalibStep>("loading");
   const [progress,  setProgress]  = useState(0);
   const [poseOk,    setPoseOk]    = useState(false);
   const [scriptsOk, setScriptsOk] = useState(false);
-
-  // ── 1. Load MediaPipe + BE vanilla-JS classes ────────────────────────────
+  // Measured eye-to-screen distance (cm); left empty, too-close alerts stay off
+  const [screenDistance, setScreenDistance] = useState("60");
+  const [saveFailure, setSaveFailure] = useState<Error | null>(null);
+  // Invalid capture: saving again can't help, only a new calibration can
+  const recaptureNeeded = saveFailure instanceof CalibrationStorageError;
+
+  // Calibration runs its own detector on the webcam preview: release the
+  // monitoring camera until the Sanctuary starts it with the new calibration
+  const { stop: stopMonitoring } = usePosture();
+  useEffect(() => { stopMonitoring(); }, [stopMonitoring]);
+
+  // ── 1. Load the MediaPipe runtime ───────────────────────────────────────
   useEffect(() => {
     (async () => {
       try {
-        for (const src of MEDIAPIPE_SCRIPTS) await loadScript(src);
-
-        // Inject BE scripts as plain <script> tags so their classes land on window
-        const beFiles = [
-          "/src/app/lib/pose-detection.js",
-          "/src/app/lib/calibration.js",
-          "/src/app/lib/calibrated-posture-monitor.js",
-        ];
-        for (const src of beFiles) {
-          await new Promise<void>((res) => {
-            if (document.querySelector(`script[src="${src}"]`)) { res(); return; }
-            const s = document.createElement("script");
-            s.src = src;
-            s.onload = () => res();
-            s.onerror = () => res(); // silent — graceful degradation
-            document.head.appendChild(s);
-          });
-        }
-
+        await loadMediaPipe();
         setScriptsOk(true);
-      } catch {
+      } catch (err) {
+        console.error("[CalibrationScreen] MediaPipe failed to load:", err);
         setScriptsOk(false);
         setStep("align");
       }
@@ -90,37 +95,28 @@ export function CalibrationScreen() {
     video.id             = "calibrationWebcam";
     canvasRef.current.id = "calibrationCanvas";
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const PD = (window as any).PoseDetector;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const PC = (window as any).PostureCalibrator;
-
-    if (!PD || !PC) { setStep("align"); return; }   // graceful degradation
+    const detector   = new PoseDetector();
+    const calibrator = new PostureCalibrator();
+    detectorRef.current   = detector;
+    calibratorRef.current = calibrator;
+    if (profileId) calibrator.activeProfileId = profileId;
 
-    detectorRef.current   = new PD();
-    calibratorRef.current = new PC();
-
-    const ok = await detectorRef.current.initialize("calibrationWebcam", "calibrationCanvas");
+    const ok = await detector.initialize("calibrationWebcam", "calibrationCanvas");
     if (ok) {
       setStep("align");
-      await detectorRef.current.start((results: { poseLandmarks?: unknown[] }) => {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const landmarks = PD.extractLandmarks(results as any);
-        if (!landmarks) { setPoseOk(false); return; }
+      await detector.start((metrics) => {
+        if (!metrics) { setPoseOk(false); return; }
         setPoseOk(true);
 
-        if (calibratorRef.current?.isCalibrating) {
-          const metrics: PostureMetrics = PD.calculatePostureMetrics(landmarks);
-          if (metrics) {
-            const info: CalibrationProgress = calibratorRef.current.addCalibrationFrame(metrics);
-            if (info) setProgress(info.progress);
-          }
+        if (calibrator.isCalibrating) {
+          const info = calibrator.addCalibrationFrame(metrics);
+          if (info) setProgress(info.progress);
         }
       });
     } else {
       setStep("error");
     }
-  }, []);
+  }, [profileId]);
 
   useEffect(() => {
     if (scriptsOk) {
@@ -144,12 +140,26 @@ export function CalibrationScreen() {
     setProgress(0);
     setStep("good");
     if (calibratorRef.current) {
+      const distance = Number(screenDistance);
+      calibratorRef.current.screenDistance =
+        screenDistance.trim() && distance >= MIN_SCREEN_DISTANCE && distance <= MAX_SCREEN_DISTANCE ? distance : null;
       calibratorRef.current.startCalibration("good");
     } else {
       simulateProgress(() => { setProgress(0); setStep("bad"); });
     }
   };
 
+  // Store the captured calibration; only move on once it is saved
+  const finishCalibration = useCallback(() => {
+    if (calibratorRef.current && !calibratorRef.current.saveCalibration()) {
+      setSaveFailure(calibratorRef.current.saveError);
+      setStep("saveError");
+      return;
+    }
+    setStep("success");
+    setTimeout(() => navigate("/sanctuary"), 1800);
+  }, [navigate]);
+
   // Progress watcher — advance steps when detector drives it to 100
   useEffect(() => {
     if (progress < 100) return;
@@ -158,12 +168,9 @@ export function CalibrationScreen() {
       setStep("bad");
       if (calibratorRef.current) calibratorRef.current.startCalibration("slouched");
     } else if (step === "bad") {
-      if (calibratorRef.current) calibratorRef.current.saveCalibration();
-      setStep("success");
-      sessionStorage.setItem("postureCalibrated", JSON.stringify({ calibratedAt: Date.now() }));
-      setTimeout(() => navigate("/sanctuary"), 1800);
+      finishCalibration();
     }
-  }, [progress, step, navigate]);
+  }, [progress, step, finishCalibration]);
 
   // ── Cleanup ───────────────────────────────────────────────────────────────
   useEffect(() => () => { detectorRef.current?.stop?.(); }, []);
@@ -177,6 +184,7 @@ export function CalibrationScreen() {
     if (step === "good")                         return "Hold this pose…";
     if (step === "bad")                          return "Slouch naturally…";
     if (step === "error")                        return "Retry";
+    if (step === "saveError")                    return recaptureNeeded ? "Calibrate again" : "Try saving again";
     return "Done";
   };
 
@@ -207,6 +215,14 @@ export function CalibrationScreen() {
       >
         <h1 className="text-3xl font-serif text-white mb-2">The Calibration Chamber</h1>
         <p className="text-lg text-cyan-400">{STEP_LABEL[step]}</p>
+        {profileName && (
+          <p className="text-sm text-slate-400 mt-1">Profile: {profileName}</p>
+        )}
+        {recalibrationReason && (
+          <p className="text-sm text-amber-300 mt-2">
+            Recalibration needed — {recalibrationReason}
+          </p>
+        )}
       </motion.div>
 
       {/* Webcam circle */}
@@ -264,7 +280,7 @@ export function CalibrationScreen() {
                 </motion.div>
               </motion.div>
             )}
-            {step === "error" && (
+            {(step === "error" || step === "saveError") && (
               <motion.div
                 initial={{ opacity: 0 }} animate={{ opacity: 1 }}
                 className="absolute inset-0 flex items-center justify-center bg-red-900/60 backdrop-blur-sm"
@@ -331,13 +347,40 @@ export function CalibrationScreen() {
             <span className="text-orange-400">Slouch forward</span> as you naturally do when tired. Hold ~6 s.
           </motion.p>
         )}
+        {step === "saveError" && (
+          <motion.p key="s" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+            className="text-slate-400 text-sm mb-6 text-center max-w-xs relative z-10"
+          >
+            {describeSaveError(saveFailure)}
+          </motion.p>
+        )}
       </AnimatePresence>
 
+      {/* Screen distance — scales shoulder width into centimetres later */}
+      {step === "align" && (
+        <motion.label initial={{ opacity: 0 }} animate={{ opacity: 1 }}
+          className="flex items-center gap-2 text-slate-400 text-xs mb-6 relative z-10"
+        >
+          Distance to screen
+          <input
+            type="number"
+            min={MIN_SCREEN_DISTANCE}
+            max={MAX_SCREEN_DISTANCE}
+            value={screenDistance}
+            onChange={(e) => setScreenDistance(e.target.value)}
+            placeholder="skip"
+            className="w-16 px-2 py-1 rounded-lg text-center bg-white/5 border border-white/10 text-slate-200"
+          />
+          cm
+        </motion.label>
+      )}
+
       {/* CTA button */}
       <motion.button
         onClick={
           step === "align" ? startGoodPosture
           : step === "error" ? () => window.location.reload()
+          : step === "saveError" ? (recaptureNeeded ? () => { setProgress(0); setStep("align"); } : finishCalibration)
           : undefined
         }
         disabled={
@@ -346,12 +389,12 @@ export function CalibrationScreen() {
         }
         initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}
         transition={{ delay: 0.4 }}
-        whileHover={canProceed || step === "error" ? { scale: 1.05 } : {}}
-        whileTap  ={canProceed || step === "error" ? { scale: 0.95 } : {}}
+        whileHover={canProceed || step === "error" || step === "saveError" ? { scale: 1.05 } : {}}
+        whileTap  ={canProceed || step === "error" || step === "saveError" ? { scale: 0.95 } : {}}
         className={`relative z-10 px-12 py-4 rounded-full text-lg font-medium transition-all ${
           canProceed
             ? "bg-cyan-500 hover:bg-cyan-400 text-white shadow-lg shadow-cyan-500/50"
-            : step === "error"
+            : step === "error" || step === "saveError"
             ? "bg-red-500 hover:bg-red-400 text-white shadow-lg"
             : "bg-cyan-500/30 cursor-not-allowed text-white/60"
         }`}
@@ -369,7 +412,7 @@ export function CalibrationScreen() {
       </motion.button>
 
       {/* Skip link */}
-      {(step === "align" || step === "error") && (
+      {(step === "align" || step === "error" || step === "saveError") && (
         <button
           onClick={() => navigate("/sanctuary")}
           className="mt-4 text-xs text-slate-500 hover:text-slate-300 transition-colors relative z-10 underline underline-offset-2"
@@ -0,0 +1,256 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { motion } from "motion/react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { useAesthetic } from "../context/AestheticContext";
+import { Navbar } from "../components/Navbar";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "../components/ui/chart";
+import { querySessions, SessionHistoryError } from "../lib/session-history";
+import {
+  averageTimeToCorrection,
+  goodPostureByDay,
+  goodPostureByWeek,
+  insightsRangeStart,
+  slouchEpisodesByHour,
+  topIssues,
+} from "../lib/posture-insights";
+import type { PostureSessionRecord } from "../lib/posture-types";
+
+type Mode = "3d" | "2d";
+type QualityPeriod = "day" | "week";
+
+// Days shown in the per-day chart; the per-week chart (and the query) covers 8 weeks
+const DAYS_SHOWN = 14;
+
+export function InsightsScreen() {
+  const { mode } = useAesthetic();
+  const [sessions, setSessions] = useState<PostureSessionRecord[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [period, setPeriod] = useState<QualityPeriod>("day");
+
+  useEffect(() => {
+    let cancelled = false;
+    querySessions({ from: insightsRangeStart() })
+      .then((result) => {
+        if (!cancelled) setSessions(result);
+      })
+      .catch((err) => {
+        console.error("[InsightsScreen] Could not read session history:", err);
+        if (cancelled) return;
+        setError(err instanceof SessionHistoryError && err.reason === "unavailable"
+          ? "This browser doesn't allow storing session history"
+          : "Session history couldn't be read");
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const insights = useMemo(() => {
+    if (!sessions) return null;
+    const thisWeek = goodPostureByWeek(sessions, 1)[0];
+    return {
+      days: goodPostureByDay(sessions, DAYS_SHOWN),
+      weeks: goodPostureByWeek(sessions),
+      hours: slouchEpisodesByHour(sessions),
+      issues: topIssues(sessions),
+      correction: averageTimeToCorrection(sessions),
+      thisWeek,
+      alerts: sessions.reduce((sum, session) => sum + session.slouchEpisodes.length, 0),
+    };
+  }, [sessions]);
+
+  const accent = mode === "3d" ? "#fbbf24" : "#0d9488";
+  const qualityConfig: ChartConfig = { goodPercent: { label: "Good posture (%)", color: accent } };
+  const hourConfig: ChartConfig = { episodes: { label: "Slouch alerts", color: mode === "3d" ? "#fb923c" : "#ec4899" } };
+  const issueConfig: ChartConfig = { frames: { label: "Frames", color: mode === "3d" ? "#f87171" : "#f472b6" } };
+  // Axis labels default to the light theme's muted grey, too dark on the 3D backdrop
+  const chartClassName = `h-56 w-full ${mode === "3d" ? "[&_.recharts-cartesian-axis-tick_text]:fill-amber-100/60" : ""}`;
+
+  const hasData = insights && sessions && sessions.length > 0;
+
+  return (
+    <div className={`min-h-screen w-full relative overflow-hidden transition-colors duration-700 ${
+      mode === "3d"
+        ? "bg-gradient-to-br from-slate-950 via-stone-900 to-amber-950"
+        : "bg-gradient-to-br from-teal-50 via-white to-pink-50"
+    }`}>
+      {/* Lighting effects for 3D mode */}
+      {mode === "3d" && (
+        <div className="absolute inset-0 pointer-events-none">
+          <div className="absolute top-0 left-1/4 w-96 h-96 bg-amber-400/10 rounded-full blur-3xl"></div>
+          <div className="absolute bottom-0 right-1/4 w-96 h-96 bg-orange-600/10 rounded-full blur-3xl"></div>
+        </div>
+      )}
+
+      <Navbar />
+
+      <div className="container mx-auto px-4 pt-24 pb-16 relative">
+        <motion.div initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} className="mb-8">
+          <h1 className={`text-3xl ${mode === "3d" ? "font-serif text-amber-200" : "font-sans text-teal-700"}`}>
+            Posture Insights
+          </h1>
+          <p className={`text-sm mt-1 ${mode === "3d" ? "text-amber-300/60" : "text-teal-700/60"}`}>
+            {sessions
+              ? `${sessions.length} recorded session${sessions.length === 1 ? "" : "s"} over the last 8 weeks`
+              : "From your recorded monitoring sessions"}
+          </p>
+        </motion.div>
+
+        {error && <EmptyState mode={mode}>{error}</EmptyState>}
+        {!error && !sessions && <EmptyState mode={mode}>Loading session history...</EmptyState>}
+        {!error && sessions && sessions.length === 0 && (
+          <EmptyState mode={mode}>
+            No sessions yet — insights appear after a minute of posture monitoring in the Sanctuary
+          </EmptyState>
+        )}
+
+        {hasData && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Headline figures */}
+            <div className="lg:col-span-2 grid grid-cols-2 md:grid-cols-4 gap-4">
+              <StatCard mode={mode} label="Good posture this week"
+                value={insights.thisWeek.goodPercent === null ? "—" : `${insights.thisWeek.goodPercent}%`} />
+              <StatCard mode={mode} label="Time tracked this week" value={formatMinutes(insights.thisWeek.trackedMinutes)} />
+              <StatCard mode={mode} label="Slouch alerts (8 weeks)" value={String(insights.alerts)} />
+              <StatCard mode={mode} label="Average time to correct"
+                value={insights.correction === null ? "—" : `${insights.correction.toFixed(1)} s`} />
+            </div>
+
+            <InsightCard
+              mode={mode}
+              title="Good posture"
+              subtitle={period === "day" ? `Per day, last ${DAYS_SHOWN} days` : "Per week, last 8 weeks"}
+              action={
+                <div className="flex gap-1">
+                  {(["day", "week"] as const).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setPeriod(option)}
+                      className={`text-xs px-3 py-1 rounded-full border transition-all ${
+                        period === option
+                          ? mode === "3d"
+                            ? "bg-amber-500/30 border-amber-400/50 text-amber-100"
+                            : "bg-teal-500/20 border-teal-400/50 text-teal-700"
+                          : mode === "3d"
+                          ? "border-amber-500/20 text-amber-200/60 hover:bg-amber-500/10"
+                          : "border-teal-400/30 text-teal-700/60 hover:bg-teal-100"
+                      }`}
+                    >
+                      {option === "day" ? "Daily" : "Weekly"}
+                    </button>
+                  ))}
+                </div>
+              }
+            >
+              <ChartContainer config={qualityConfig} className={chartClassName}>
+                <BarChart data={period === "day" ? insights.days : insights.weeks}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="goodPercent" fill="var(--color-goodPercent)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </InsightCard>
+
+            <InsightCard mode={mode} title="Slouch alerts by hour" subtitle="When in the day alerts start">
+              <ChartContainer config={hourConfig} className={chartClassName}>
+                <BarChart data={insights.hours}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} interval={2} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="episodes" fill="var(--color-episodes)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </InsightCard>
+
+            <InsightCard mode={mode} title="Most frequent issues" subtitle="Frames each issue was reported in">
+              {insights.issues.length === 0 ? (
+                <p className={`text-sm ${mode === "3d" ? "text-amber-200/60" : "text-teal-700/60"}`}>
+                  No posture issues recorded yet
+                </p>
+              ) : (
+                <ChartContainer config={issueConfig} className={chartClassName}>
+                  <BarChart data={insights.issues} layout="vertical" margin={{ left: 16 }}>
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" hide />
+                    <YAxis type="category" dataKey="issue" tickLine={false} axisLine={false} width={150} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="frames" fill="var(--color-frames)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </InsightCard>
+
+            <InsightCard mode={mode} title="Correcting a slouch" subtitle="Seconds from an alert to sitting up again">
+              <div className="h-56 flex flex-col items-center justify-center gap-2">
+                <span className={`text-5xl ${mode === "3d" ? "font-serif text-amber-200" : "font-sans text-teal-700"}`}>
+                  {insights.correction === null ? "—" : `${insights.correction.toFixed(1)} s`}
+                </span>
+                <span className={`text-sm text-center max-w-xs ${mode === "3d" ? "text-amber-300/60" : "text-teal-700/60"}`}>
+                  Average over corrected alerts. Alerts dropped by a pause, a camera move or leaving the desk are left out
+                </span>
+              </div>
+            </InsightCard>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function InsightCard({ mode, title, subtitle, action, children }: {
+  mode: Mode;
+  title: string;
+  subtitle: string;
+  action?: ReactNode;
+  children: ReactNode;
+}) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 12 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`rounded-3xl backdrop-blur-xl border p-6 ${
+        mode === "3d"
+          ? "bg-black/30 border-amber-500/30 shadow-2xl shadow-black/50"
+          : "bg-white/60 border-teal-400/40 shadow-xl"
+      }`}
+    >
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className={`text-lg ${mode === "3d" ? "font-serif text-amber-200" : "font-sans text-teal-700"}`}>{title}</h2>
+          <p className={`text-xs ${mode === "3d" ? "text-amber-300/60" : "text-teal-700/60"}`}>{subtitle}</p>
+        </div>
+        {action}
+      </div>
+      {children}
+    </motion.div>
+  );
+}
+
+function StatCard({ mode, label, value }: { mode: Mode; label: string; value: string }) {
+  return (
+    <div className={`rounded-2xl backdrop-blur-xl border px-4 py-3 ${
+      mode === "3d" ? "bg-black/30 border-amber-500/30" : "bg-white/60 border-teal-400/40"
+    }`}>
+      <div className={`text-2xl ${mode === "3d" ? "font-serif text-amber-100" : "font-sans text-teal-800"}`}>{value}</div>
+      <div className={`text-xs ${mode === "3d" ? "text-amber-300/60" : "text-teal-700/60"}`}>{label}</div>
+    </div>
+  );
+}
+
+function EmptyState({ mode, children }: { mode: Mode; children: ReactNode }) {
+  return (
+    <div className={`rounded-3xl backdrop-blur-xl border p-10 text-center text-sm ${
+      mode === "3d"
+        ? "bg-black/30 border-amber-500/30 text-amber-200/70"
+        : "bg-white/60 border-teal-400/40 text-teal-700/70"
+    }`}>
+      {children}
+    </div>
+  );
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
@@ -1,12 +1,20 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router";
 import { useAesthetic } from "../context/AestheticContext";
 import { motion } from "motion/react";
 import { Navbar } from "../components/Navbar";
 import { EnvironmentGallery } from "../components/EnvironmentGallery";
 import { SonicTemporalWidget } from "../components/SonicTemporalWidget";
 import { KnowledgeNexusWidget } from "../components/KnowledgeNexusWidget";
-import { PostureOverlay, PostureCorrectedToast } from "../components/PostureOverlay";
-import { usePostureMonitor } from "../hooks/usePostureMonitor";
+import {
+  CameraMovedPrompt,
+  PostureOverlay,
+  PostureCorrectedToast,
+  ReferenceCheckOverlay,
+  VisibilityNotice,
+} from "../components/PostureOverlay";
+import { ProfileSwitcher } from "../components/ProfileSwitcher";
+import { usePosture } from "../context/PostureContext";
 
 import cozyEveningBg from "../../assets/908fc3f6eed6f65df50d0d5230e1034b883b6d42.png";
 import beachStudioBg from "../../assets/9043200908ac0dfb46c82aaea44020cf45a6c178.png";
@@ -18,7 +26,37 @@ type Environment = "cozy-evening" | "beach-studio" | "winter-studio" | "night-st
 export function SanctuaryScreen() {
   const { mode } = useAesthetic();
   const [selectedEnv, setSelectedEnv] = useState<Environment>("cozy-evening");
-  const { slouching, slouchEvent, corrected, active } = usePostureMonitor();
+  const navigate = useNavigate();
+  const {
+    slouching, slouchEvent, tooClose, eyeBreak, completeEyeBreak, corrected, active, paused, away, error, needsRecalibration, needsNewProfile,
+    referenceCheck, recalibrationReason, hiddenParts, cameraMoved, reReference, start, resume,
+    profiles, activeProfileId, switchProfile, createProfile, renameProfile, deleteProfile,
+    eyeTracking, setEyeTracking,
+  } = usePosture();
+
+  // Start monitoring with the saved profiles (the reference check picks one);
+  // without a calibration start() reports needsRecalibration instead. Once
+  // running it carries on across routes, and start() does nothing
+  useEffect(() => {
+    start();
+  }, [start]);
+
+  const calibrateProfile = (profileId: string) => navigate(`/calibration?profile=${encodeURIComponent(profileId)}`);
+
+  // Reference check found the posture has drifted from this profile's calibration
+  useEffect(() => {
+    if (!recalibrationReason || !activeProfileId) return;
+    const params = new URLSearchParams({ profile: activeProfileId, reason: recalibrationReason });
+    navigate(`/calibration?${params}`);
+  }, [recalibrationReason, activeProfileId, navigate]);
+
+  // Unmatched setup: calibrate it as a new profile (renamable from the switcher)
+  const calibrateNewProfile = () => {
+    const taken = new Set(profiles.map((p) => p.name.toLowerCase()));
+    let n = profiles.length + 1;
+    while (taken.has(`setup ${n}`)) n++;
+    calibrateProfile(createProfile(`Setup ${n}`).id);
+  };
 
   const getEnvironmentBackground = (env: Environment) => {
     const backgrounds = {
@@ -33,20 +71,75 @@ export function SanctuaryScreen() {
   return (
     <div className="min-h-screen w-full relative overflow-hidden">
       {/* Posture Overlays */}
-      <PostureOverlay visible={slouching} slouchEvent={slouchEvent} />
+      <PostureOverlay
+        visible={slouching}
+        slouchEvent={slouchEvent}
+        tooCloseEvent={tooClose}
+        eyeBreakEvent={eyeBreak}
+        onEyeBreakDone={completeEyeBreak}
+      />
       <PostureCorrectedToast visible={corrected} />
-      {/* Posture status pill */}
-      {active && (
-        <div className="fixed bottom-24 right-4 z-40">
+      <ReferenceCheckOverlay check={referenceCheck} />
+      <CameraMovedPrompt event={cameraMoved} onReReference={reReference} onResume={resume} />
+      {/* Posture status pill + calibration profile */}
+      <div className="fixed bottom-24 right-4 z-40 flex flex-col items-end gap-2">
+        {profiles.length > 0 && (
+          <ProfileSwitcher
+            profiles={profiles}
+            activeProfileId={activeProfileId}
+            mode={mode}
+            onSwitch={switchProfile}
+            onCalibrate={calibrateProfile}
+            onCreate={createProfile}
+            onRename={renameProfile}
+            onDelete={deleteProfile}
+          />
+        )}
+        {active && <VisibilityNotice hiddenParts={hiddenParts} />}
+        {active && (
           <div className={`text-xs px-3 py-1.5 rounded-full backdrop-blur-md border font-medium transition-all ${
-            slouching
+            paused || away
+              ? "bg-white/10 border-white/20 text-white"
+              : slouching
               ? "bg-rose-500/80 border-rose-300/40 text-white"
               : "bg-emerald-500/80 border-emerald-300/40 text-white"
           }`}>
-            {slouching ? "⚠ Fix posture" : "✓ Good posture"}
+            {paused ? "⏸ Paused" : away ? "🚶 Away" : slouching ? "⚠ Fix posture" : "✓ Good posture"}
           </div>
-        </div>
-      )}
+        )}
+        {active && (
+          <button
+            onClick={() => setEyeTracking(!eyeTracking)}
+            title="20-20-20 reminders from blink and screen-time tracking"
+            className={`text-xs px-3 py-1.5 rounded-full backdrop-blur-md border font-medium transition-all ${
+              eyeTracking
+                ? "bg-sky-500/80 border-sky-300/40 text-white"
+                : "bg-white/10 border-white/20 text-white/70 hover:bg-white/20"
+            }`}
+          >
+            👁 Eye breaks {eyeTracking ? "on" : "off"}
+          </button>
+        )}
+        {!active && error && (needsNewProfile ? (
+          <button
+            onClick={calibrateNewProfile}
+            className="text-xs px-3 py-1.5 rounded-full backdrop-blur-md border font-medium bg-amber-500/80 border-amber-300/40 text-white hover:bg-amber-500 transition-all"
+          >
+            {error} · New profile →
+          </button>
+        ) : needsRecalibration ? (
+          <button
+            onClick={() => navigate("/calibration")}
+            className="text-xs px-3 py-1.5 rounded-full backdrop-blur-md border font-medium bg-amber-500/80 border-amber-300/40 text-white hover:bg-amber-500 transition-all"
+          >
+            {error} · Recalibrate →
+          </button>
+        ) : (
+          <div className="text-xs px-3 py-1.5 rounded-full backdrop-blur-md border font-medium bg-amber-500/80 border-amber-300/40 text-white">
+            {error}
+          </div>
+        ))}
+      </div>
       {/* Background Image with Overlay */}
       <div className="absolute inset-0 -z-10">
         <img
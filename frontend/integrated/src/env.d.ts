@@ -1,3 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Where the MediaPipe packages are served from (defaults to `<base>/mediapipe/`) */
+  readonly VITE_MEDIAPIPE_BASE_URL?: string;
+}
+
 declare module '*.png' {
   const value: string;
   export default value;
@@ -1,15 +1,63 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
+import fs from 'fs'
 import path from 'path'
 import tailwindcss from '@tailwindcss/vite'
 import react from '@vitejs/plugin-react'
 
+// MediaPipe packages whose runtime, WASM and model files are served by the app
+// itself under /mediapipe/<package>/ so posture detection works offline.
+// face_mesh is only requested when eye-break reminders are switched on.
+const MEDIAPIPE_PACKAGES = ['pose', 'face_mesh']
+// Docs/typings are not runtime assets; the heavy model is never requested
+// (PoseDetector uses modelComplexity 1) and would add ~27 MB to the build.
+const MEDIAPIPE_SKIP = /\.(md|json|d\.ts)$|_heavy\.tflite$/
+
+function mediapipeAssets(): Plugin {
+  const packageDir = (pkg: string) =>
+    path.resolve(__dirname, 'node_modules/@mediapipe', pkg)
+
+  return {
+    name: 'mediapipe-assets',
+    configureServer(server) {
+      server.middlewares.use('/mediapipe', (req, res, next) => {
+        const [pkg, file] = (req.url ?? '').split('?')[0].replace(/^\//, '').split('/')
+        if (!MEDIAPIPE_PACKAGES.includes(pkg) || !file || MEDIAPIPE_SKIP.test(file)) return next()
+
+        const filePath = path.join(packageDir(pkg), file)
+        if (!fs.existsSync(filePath)) return next()
+
+        if (file.endsWith('.wasm')) res.setHeader('Content-Type', 'application/wasm')
+        else if (file.endsWith('.js')) res.setHeader('Content-Type', 'text/javascript')
+        fs.createReadStream(filePath).pipe(res)
+      })
+    },
+    generateBundle() {
+      for (const pkg of MEDIAPIPE_PACKAGES) {
+        for (const file of fs.readdirSync(packageDir(pkg))) {
+          if (MEDIAPIPE_SKIP.test(file)) continue
+          this.emitFile({
+            type: 'asset',
+            fileName: `mediapipe/${pkg}/${file}`,
+            source: fs.readFileSync(path.join(packageDir(pkg), file)),
+          })
+        }
+      }
+    },
+  }
+}
+
 export default defineConfig({
   plugins: [
     // The React and Tailwind plugins are both required for Make, even if
     // Tailwind is not being actively used – do not remove them
     react(),
     tailwindcss(),
+    mediapipeAssets(),
   ],
+  // The pose worker is a module worker (see src/app/lib/pose.worker.ts)
+  worker: {
+    format: 'es',
+  },
   resolve: {
     alias: {
       // Alias @ to the src directory
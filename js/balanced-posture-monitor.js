@@ -1,6 +1,10 @@
 /**
  * BALANCED POSTURE MONITOR
  * Detects sustained bad posture while allowing natural movement
+ *
+ * Engine for the standalone HTML demos only (loaded as a plain <script>).
+ * The React app uses frontend/integrated/src/app/lib/classifiers/balanced-classifier.ts;
+ * change that one — this copy is not kept in sync.
  */
 
 class BalancedPostureMonitor {
@@ -1,6 +1,10 @@
 /**
  * CALIBRATED POSTURE MONITOR - THE PROPER VERSION!
  * Uses your personal calibration to detect slouching accurately
+ *
+ * Engine for the standalone HTML demos only (loaded as a plain <script>).
+ * The React app uses frontend/integrated/src/app/lib/calibrated-posture-monitor.ts;
+ * change that one — this copy is not kept in sync.
  */
 
 class CalibratedPostureMonitor {
@@ -1,6 +1,10 @@
 /**
  * CALIBRATION MODULE
  * Handles one-time calibration and quick reference checks
+ *
+ * Engine for the standalone HTML demos only (loaded as a plain <script>).
+ * The React app uses frontend/integrated/src/app/lib/calibration.ts;
+ * change that one — this copy is not kept in sync.
  */
 
 class PostureCalibrator {
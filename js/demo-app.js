@@ -1,6 +1,8 @@
 /**
  * DEMO APP - Main Integration Script
  * Connects PoseDetector, PostureCalibrator, and PostureMonitor
+ *
+ * Standalone HTML demo only; the React app lives in frontend/integrated.
  */
 
 // Initialize modules
@@ -1,6 +1,10 @@
 /**
  * POSE DETECTION MODULE
  * Handles MediaPipe Pose initialization and landmark processing
+ *
+ * Engine for the standalone HTML demos only (loaded as a plain <script>).
+ * The React app uses frontend/integrated/src/app/lib/pose-detection.ts;
+ * change that one — this copy is not kept in sync.
  */
 
 class PoseDetector {
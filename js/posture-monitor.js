@@ -1,6 +1,10 @@
 /**
  * POSTURE MONITOR MODULE
  * Real-time posture monitoring with two detection strategies
+ *
+ * Engine for the standalone HTML demos only (loaded as a plain <script>).
+ * The React app uses frontend/integrated/src/app/lib/classifiers/ratio-drift-classifier.ts;
+ * change that one — this copy is not kept in sync.
  */
 
 class PostureMonitor {